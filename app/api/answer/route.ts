@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { createUIMessageStreamResponse } from "ai"
+import { AnswerService } from "@/lib/services/answer-service"
+import { SEARCH_MODES, parseSearchFilters, type SearchMode } from "@/lib/services/search-service"
+import { parseRerankOption } from "@/lib/services/reranker"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null)
+    const query = typeof body?.query === "string" ? body.query.trim() : ""
+
+    const mode: SearchMode = body?.mode ?? "hybrid"
+
+    if (!query) {
+      return NextResponse.json({ error: "Query is required" }, { status: 400 })
+    }
+
+    if (!SEARCH_MODES.includes(mode)) {
+      return NextResponse.json({ error: `mode must be one of: ${SEARCH_MODES.join(", ")}` }, { status: 400 })
+    }
+
+    const { rerank, error: rerankError } = parseRerankOption(body?.rerank)
+    if (rerankError) {
+      return NextResponse.json({ error: rerankError }, { status: 400 })
+    }
+
+    const filters = parseSearchFilters(body?.filters)
+    if (typeof filters === "string") {
+      return NextResponse.json({ error: filters }, { status: 400 })
+    }
+
+    const answerService = new AnswerService()
+    const stream = await answerService.answer(query, { mode, filters, rerank })
+
+    if (!stream) {
+      return NextResponse.json({ error: "No indexed content matched the question" }, { status: 404 })
+    }
+
+    return createUIMessageStreamResponse({ stream })
+  } catch (error) {
+    console.error("[v0] Answer endpoint error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
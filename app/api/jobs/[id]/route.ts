@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { JobQueue } from "@/lib/services/job-queue"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json({ error: "Job ID is required" }, { status: 400 })
+    }
+
+    const jobQueue = new JobQueue()
+
+    // Get job record (includes the PipelineResult once finished)
+    const job = await jobQueue.getJob(id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error("[v0] Job fetch error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
-import { LangCacheService } from "@/lib/services/langcache-service"
+import { SEARCH_MODES, SearchService, parseSearchFilters, type SearchMode } from "@/lib/services/search-service"
+import { parseRerankOption } from "@/lib/services/reranker"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -9,16 +10,40 @@ export async function POST(request: Request) {
     const body = await request.json().catch(() => null)
     const query = typeof body?.query === "string" ? body.query.trim() : ""
 
+    const mode: SearchMode = body?.mode ?? "hybrid"
+
     if (!query) {
       return NextResponse.json({ error: "Query is required" }, { status: 400 })
     }
 
-    const langCacheService = new LangCacheService()
-    const results = await langCacheService.searchIndexedContent(query)
+    if (!SEARCH_MODES.includes(mode)) {
+      return NextResponse.json({ error: `mode must be one of: ${SEARCH_MODES.join(", ")}` }, { status: 400 })
+    }
+
+    const { rerank, error: rerankError } = parseRerankOption(body?.rerank)
+    if (rerankError) {
+      return NextResponse.json({ error: rerankError }, { status: 400 })
+    }
+
+    const filters = parseSearchFilters(body?.filters)
+    if (typeof filters === "string") {
+      return NextResponse.json({ error: filters }, { status: 400 })
+    }
+
+    const searchService = new SearchService()
+    const results = await searchService.search(query, { mode, filters, rerank })
 
-    return NextResponse.json({ results })
+    return NextResponse.json({
+      // Full chunk text is only needed server-side
+      results: results.map(({ content: _content, ...result }) => result),
+      facets: await searchService.getFacets(filters, results),
+      backend: searchService.backendName,
+      mode,
+      rerank: rerank ?? null,
+      filters,
+    })
   } catch (error) {
-    console.error("[v0] LangCache search endpoint error:", error)
+    console.error("[v0] Search endpoint error:", error)
     return NextResponse.json(
       {
         error: "Internal server error",
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { JobQueue } from "@/lib/services/job-queue"
+import { PromptTemplateService } from "@/lib/services/prompt-template-service"
+import { RedisService } from "@/lib/services/redis-service"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function POST(request: Request) {
+  try {
+    const { domain, maxUrls, scrapeDelay, aiDelay, aiModel, aiTemperature, aiTemplateId, aiTemplateVersion } =
+      await request.json()
+
+    if (!domain) {
+      return NextResponse.json({ error: "Domain is required" }, { status: 400 })
+    }
+
+    const templateSelection = await new PromptTemplateService().parseSelection(aiTemplateId, aiTemplateVersion)
+    if (typeof templateSelection === "string") {
+      return NextResponse.json({ error: templateSelection }, { status: 400 })
+    }
+
+    const redisService = new RedisService()
+    const metadata = await redisService.getSitemapMetadata(domain)
+
+    if (!metadata) {
+      return NextResponse.json({ error: "Domain has not been indexed yet" }, { status: 404 })
+    }
+
+    // Enqueue incremental refresh; only new, changed or stale URLs are re-crawled
+    const jobQueue = new JobQueue()
+    const job = await jobQueue.enqueueRefresh(metadata, {
+      maxUrls: maxUrls || 50,
+      scrapeDelay: scrapeDelay || 1000,
+      aiDelay: aiDelay || 2000,
+      aiModel: aiModel || "openai/gpt-4o-mini",
+      aiTemperature: aiTemperature || 0.7,
+      aiTemplateId: templateSelection.templateId,
+      aiTemplateVersion: templateSelection.templateVersion,
+    })
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`,
+      },
+      { status: 202 },
+    )
+  } catch (error) {
+    console.error("[v0] Pipeline refresh error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { JobQueue } from "@/lib/services/job-queue"
+import { ProcessingPipeline } from "@/lib/services/pipeline"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function POST(request: Request) {
+  try {
+    const { runId } = await request.json()
+
+    if (!runId) {
+      return NextResponse.json({ error: "Run ID is required" }, { status: 400 })
+    }
+
+    const pipeline = new ProcessingPipeline()
+    const run = await pipeline.getRun(runId)
+
+    if (!run) {
+      return NextResponse.json({ error: "Pipeline run not found" }, { status: 404 })
+    }
+
+    if (run.status === "completed") {
+      return NextResponse.json({ error: "Pipeline run already completed" }, { status: 409 })
+    }
+
+    // Enqueue resumption; only URLs without a checkpoint are processed again
+    const jobQueue = new JobQueue()
+    const job = await jobQueue.enqueueResume(run)
+
+    if (!job) {
+      return NextResponse.json({ error: "Pipeline run already has a queued or running job" }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        runId: run.runId,
+        resumeFrom: run.stage,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`,
+      },
+      { status: 202 },
+    )
+  } catch (error) {
+    console.error("[v0] Pipeline resume error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
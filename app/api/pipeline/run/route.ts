@@ -1,29 +1,45 @@
 import { NextResponse } from "next/server"
-import { ProcessingPipeline } from "@/lib/services/pipeline"
+import { JobQueue } from "@/lib/services/job-queue"
+import { PromptTemplateService } from "@/lib/services/prompt-template-service"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 
 export async function POST(request: Request) {
   try {
-    const { sitemapUrl, maxUrls, scrapeDelay, aiDelay, aiModel, aiTemperature } = await request.json()
+    const { sitemapUrl, maxUrls, scrapeDelay, aiDelay, aiModel, aiTemperature, aiTemplateId, aiTemplateVersion } =
+      await request.json()
 
     if (!sitemapUrl) {
       return NextResponse.json({ error: "Sitemap URL is required" }, { status: 400 })
     }
 
-    // Initialize and run pipeline
-    const pipeline = new ProcessingPipeline()
+    const templateSelection = await new PromptTemplateService().parseSelection(aiTemplateId, aiTemplateVersion)
+    if (typeof templateSelection === "string") {
+      return NextResponse.json({ error: templateSelection }, { status: 400 })
+    }
+
+    // Enqueue pipeline run; the background worker picks it up
+    const jobQueue = new JobQueue()
 
-    const result = await pipeline.run(sitemapUrl, {
+    const job = await jobQueue.enqueuePipelineRun(sitemapUrl, {
       maxUrls: maxUrls || 50,
       scrapeDelay: scrapeDelay || 1000,
       aiDelay: aiDelay || 2000,
       aiModel: aiModel || "openai/gpt-4o-mini",
       aiTemperature: aiTemperature || 0.7,
+      aiTemplateId: templateSelection.templateId,
+      aiTemplateVersion: templateSelection.templateVersion,
     })
 
-    return NextResponse.json(result)
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`,
+      },
+      { status: 202 },
+    )
   } catch (error) {
     console.error("[v0] Pipeline error:", error)
     return NextResponse.json(
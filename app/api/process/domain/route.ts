@@ -1,17 +1,23 @@
 import { NextResponse } from "next/server"
 import { AIProcessor } from "@/lib/services/ai-processor"
+import { PromptTemplateService } from "@/lib/services/prompt-template-service"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 
 export async function POST(request: Request) {
   try {
-    const { domain, model, temperature } = await request.json()
+    const { domain, model, temperature, templateId, templateVersion } = await request.json()
 
     if (!domain) {
       return NextResponse.json({ error: "Domain is required" }, { status: 400 })
     }
 
+    const templateSelection = await new PromptTemplateService().parseSelection(templateId, templateVersion)
+    if (typeof templateSelection === "string") {
+      return NextResponse.json({ error: templateSelection }, { status: 400 })
+    }
+
     // Initialize AI processor
     const aiProcessor = new AIProcessor()
 
@@ -21,6 +27,7 @@ export async function POST(request: Request) {
       temperature: temperature || 0.7,
       maxTokens: 2000,
       delayBetweenRequests: 2000,
+      ...templateSelection,
     })
 
     return NextResponse.json({
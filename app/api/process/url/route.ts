@@ -1,17 +1,23 @@
 import { NextResponse } from "next/server"
 import { AIProcessor } from "@/lib/services/ai-processor"
+import { PromptTemplateService } from "@/lib/services/prompt-template-service"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 
 export async function POST(request: Request) {
   try {
-    const { url, model, temperature } = await request.json()
+    const { url, model, temperature, templateId, templateVersion } = await request.json()
 
     if (!url) {
       return NextResponse.json({ error: "URL is required" }, { status: 400 })
     }
 
+    const templateSelection = await new PromptTemplateService().parseSelection(templateId, templateVersion)
+    if (typeof templateSelection === "string") {
+      return NextResponse.json({ error: templateSelection }, { status: 400 })
+    }
+
     // Initialize AI processor
     const aiProcessor = new AIProcessor()
 
@@ -20,6 +26,7 @@ export async function POST(request: Request) {
       model: model || "openai/gpt-4o-mini",
       temperature: temperature || 0.7,
       maxTokens: 2000,
+      ...templateSelection,
     })
 
     return NextResponse.json({
@@ -27,6 +34,12 @@ export async function POST(request: Request) {
       url: result.url,
       response: result.response,
       fromCache: result.fromCache,
+      cacheType: result.cacheType,
+      similarity: result.similarity,
+      tokensUsed: result.tokensUsed,
+      tokensSaved: result.tokensSaved,
+      templateId: result.templateId,
+      templateVersion: result.templateVersion,
       processingTime: result.processingTime,
       error: result.error,
     })
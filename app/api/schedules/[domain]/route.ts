@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server"
+import { CrawlScheduler } from "@/lib/services/crawl-scheduler"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function GET(request: Request, { params }: { params: Promise<{ domain: string }> }) {
+  try {
+    const { domain } = await params
+
+    if (!domain) {
+      return NextResponse.json({ error: "Domain is required" }, { status: 400 })
+    }
+
+    const scheduler = new CrawlScheduler()
+    const schedule = await scheduler.getSchedule(domain)
+
+    if (!schedule) {
+      return NextResponse.json({ error: "No schedule found for domain" }, { status: 404 })
+    }
+
+    return NextResponse.json(schedule)
+  } catch (error) {
+    console.error("[v0] Schedule fetch error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ domain: string }> }) {
+  try {
+    const { domain } = await params
+    const { paused } = await request.json()
+
+    if (typeof paused !== "boolean") {
+      return NextResponse.json({ error: "paused (boolean) is required" }, { status: 400 })
+    }
+
+    // Pause or resume the schedule
+    const scheduler = new CrawlScheduler()
+    const schedule = await scheduler.setPaused(domain, paused)
+
+    if (!schedule) {
+      return NextResponse.json({ error: "No schedule found for domain" }, { status: 404 })
+    }
+
+    return NextResponse.json(schedule)
+  } catch (error) {
+    console.error("[v0] Schedule update error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ domain: string }> }) {
+  try {
+    const { domain } = await params
+
+    const scheduler = new CrawlScheduler()
+    const deleted = await scheduler.deleteSchedule(domain)
+
+    if (!deleted) {
+      return NextResponse.json({ error: "No schedule found for domain" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, domain })
+  } catch (error) {
+    console.error("[v0] Schedule delete error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
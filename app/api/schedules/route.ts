@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server"
+import { CrawlScheduler } from "@/lib/services/crawl-scheduler"
+import { PromptTemplateService } from "@/lib/services/prompt-template-service"
+import { RedisService } from "@/lib/services/redis-service"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const scheduler = new CrawlScheduler()
+    const schedules = await scheduler.listSchedules()
+
+    return NextResponse.json({ schedules })
+  } catch (error) {
+    console.error("[v0] Schedule list error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const {
+      domain,
+      cron,
+      intervalMinutes,
+      maxUrls,
+      scrapeDelay,
+      aiDelay,
+      aiModel,
+      aiTemperature,
+      aiTemplateId,
+      aiTemplateVersion,
+    } = await request.json()
+
+    const validationError = CrawlScheduler.validate({
+      domain,
+      cron,
+      intervalMinutes: intervalMinutes === undefined ? undefined : Number(intervalMinutes),
+    })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const templateSelection = await new PromptTemplateService().parseSelection(aiTemplateId, aiTemplateVersion)
+    if (typeof templateSelection === "string") {
+      return NextResponse.json({ error: templateSelection }, { status: 400 })
+    }
+
+    const redisService = new RedisService()
+    const metadata = await redisService.getSitemapMetadata(domain)
+
+    if (!metadata) {
+      return NextResponse.json({ error: "Domain has not been indexed yet" }, { status: 404 })
+    }
+
+    const scheduler = new CrawlScheduler()
+    const schedule = await scheduler.createSchedule({
+      domain,
+      cron,
+      intervalMinutes: intervalMinutes === undefined ? undefined : Number(intervalMinutes),
+      options: {
+        maxUrls: maxUrls || 50,
+        scrapeDelay: scrapeDelay || 1000,
+        aiDelay: aiDelay || 2000,
+        aiModel: aiModel || "openai/gpt-4o-mini",
+        aiTemperature: aiTemperature || 0.7,
+        aiTemplateId: templateSelection.templateId,
+        aiTemplateVersion: templateSelection.templateVersion,
+      },
+    })
+
+    return NextResponse.json(schedule, { status: 201 })
+  } catch (error) {
+    console.error("[v0] Schedule create error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server"
+import { RedisService } from "@/lib/services/redis-service"
+import { getScraperStrategy } from "@/lib/services/scraper-strategies"
+import type { DomainScraperConfig } from "@/lib/redis"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function GET(request: Request, { params }: { params: Promise<{ domain: string }> }) {
+  try {
+    const { domain } = await params
+
+    if (!domain) {
+      return NextResponse.json({ error: "Domain is required" }, { status: 400 })
+    }
+
+    const redisService = new RedisService()
+    const config = await redisService.getScraperConfig(domain)
+
+    if (!config) {
+      return NextResponse.json({ error: "No scraper config found for domain" }, { status: 404 })
+    }
+
+    return NextResponse.json(config)
+  } catch (error) {
+    console.error("[v0] Scraper config fetch error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PUT(request: Request, { params }: { params: Promise<{ domain: string }> }) {
+  try {
+    const { domain } = await params
+    const { strategies = [], includeSelectors, excludeSelectors } = await request.json()
+
+    if (!Array.isArray(strategies)) {
+      return NextResponse.json({ error: "strategies must be an array" }, { status: 400 })
+    }
+
+    const unknown = strategies.filter((name) => typeof name !== "string" || !getScraperStrategy(name))
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown scraper strategies: ${unknown.join(", ")}` }, { status: 400 })
+    }
+
+    for (const [field, selectors] of Object.entries({ includeSelectors, excludeSelectors })) {
+      if (selectors !== undefined && (!Array.isArray(selectors) || selectors.some((s) => typeof s !== "string"))) {
+        return NextResponse.json({ error: `${field} must be an array of CSS selectors` }, { status: 400 })
+      }
+    }
+
+    if (strategies.length === 0 && !includeSelectors?.length && !excludeSelectors?.length) {
+      return NextResponse.json(
+        { error: "Provide strategies, includeSelectors or excludeSelectors" },
+        { status: 400 },
+      )
+    }
+
+    const config: DomainScraperConfig = {
+      domain,
+      strategies,
+      includeSelectors: includeSelectors?.length ? includeSelectors : undefined,
+      excludeSelectors: excludeSelectors?.length ? excludeSelectors : undefined,
+      updatedAt: new Date().toISOString(),
+    }
+
+    const redisService = new RedisService()
+    await redisService.storeScraperConfig(config)
+
+    return NextResponse.json(config)
+  } catch (error) {
+    console.error("[v0] Scraper config update error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ domain: string }> }) {
+  try {
+    const { domain } = await params
+
+    const redisService = new RedisService()
+    const config = await redisService.getScraperConfig(domain)
+
+    if (!config) {
+      return NextResponse.json({ error: "No scraper config found for domain" }, { status: 404 })
+    }
+
+    await redisService.deleteScraperConfig(domain)
+
+    return NextResponse.json({ success: true, domain })
+  } catch (error) {
+    console.error("[v0] Scraper config delete error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
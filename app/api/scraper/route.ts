@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { RedisService } from "@/lib/services/redis-service"
+import { listScraperStrategies } from "@/lib/services/scraper-strategies"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const redisService = new RedisService()
+    const configs = await redisService.getScraperConfigs()
+
+    // Registered strategies plus every domain with a custom ordering
+    return NextResponse.json({
+      strategies: listScraperStrategies().map(({ name, description }) => ({ name, description })),
+      configs,
+    })
+  } catch (error) {
+    console.error("[v0] Scraper config list error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
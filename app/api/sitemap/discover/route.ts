@@ -7,7 +7,7 @@ export const dynamic = "force-dynamic"
 
 export async function POST(request: Request) {
   try {
-    const { domain } = await request.json()
+    const { domain, crawlFallback = true, maxDepth, maxPages, include, exclude } = await request.json()
 
     if (!domain) {
       return NextResponse.json({ error: "Domain is required" }, { status: 400 })
@@ -17,11 +17,13 @@ export async function POST(request: Request) {
     const indexer = new UrlIndexer()
     const scraper = new PageScraper()
 
-    // Auto-discover and index sitemap
+    // Auto-discover and index sitemap, crawling links when there is none
     const indexResult = await indexer.autoDiscoverAndIndex(domain, {
       maxUrls: 100,
       skipExisting: true,
       batchSize: 20,
+      crawlFallback,
+      crawl: { maxDepth, maxPages, include, exclude },
     })
 
     if (!indexResult.success) {
@@ -37,6 +39,7 @@ export async function POST(request: Request) {
     return NextResponse.json({
       success: true,
       domain: indexResult.domain,
+      source: indexResult.source,
       totalUrls: indexResult.totalUrls,
       indexedUrls: indexResult.indexedUrls,
       skippedUrls: indexResult.skippedUrls,
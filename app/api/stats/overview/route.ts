@@ -9,12 +9,14 @@ export async function GET() {
     const redisService = new RedisService()
 
     const domains = await redisService.getDomains()
+    const semanticCache = await getSemanticCacheOverview(redisService)
     if (domains.length === 0) {
       return NextResponse.json({
         totalUrls: 0,
         cachedPrompts: 0,
         cachedResponses: 0,
         cacheHitRate: 0,
+        semanticCache,
       })
     }
 
@@ -32,6 +34,7 @@ export async function GET() {
       cachedPrompts,
       cachedResponses,
       cacheHitRate,
+      semanticCache,
     })
   } catch (error) {
     console.error("[v0] Stats overview error:", error)
@@ -44,3 +47,15 @@ export async function GET() {
     )
   }
 }
+
+/**
+ * Semantic cache counters, with the hit rate as a percentage of lookups
+ */
+async function getSemanticCacheOverview(redisService: RedisService) {
+  const stats = await redisService.getSemanticCacheStats()
+  const lookups = stats.hits + stats.misses
+  return {
+    ...stats,
+    hitRate: lookups > 0 ? Number(((stats.hits / lookups) * 100).toFixed(1)) : 0,
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server"
+import { DEFAULT_TEMPLATE_ID, PromptTemplateService } from "@/lib/services/prompt-template-service"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const version = searchParams.get("version")
+
+    const templateService = new PromptTemplateService()
+
+    if (version) {
+      const template = await templateService.getTemplate(id, Number(version))
+      if (!template) {
+        return NextResponse.json({ error: "Prompt template version not found" }, { status: 404 })
+      }
+      return NextResponse.json(template)
+    }
+
+    const versions = await templateService.getTemplateVersions(id)
+    if (versions.length === 0) {
+      return NextResponse.json({ error: "Prompt template not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ id, latest: versions[versions.length - 1], versions })
+  } catch (error) {
+    console.error("[v0] Prompt template fetch error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const templateService = new PromptTemplateService()
+    const deleted = await templateService.deleteTemplate(id)
+
+    if (!deleted) {
+      const error =
+        id === DEFAULT_TEMPLATE_ID ? "The built-in default template cannot be deleted" : "Prompt template not found"
+      return NextResponse.json({ error }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, id })
+  } catch (error) {
+    console.error("[v0] Prompt template delete error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server"
+import { PromptTemplateService } from "@/lib/services/prompt-template-service"
+import { RedisService } from "@/lib/services/redis-service"
+import type { DomainPromptTemplate } from "@/lib/redis"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function GET(request: Request, { params }: { params: Promise<{ domain: string }> }) {
+  try {
+    const { domain } = await params
+
+    const redisService = new RedisService()
+    const selection = await redisService.getDomainPromptTemplate(domain)
+
+    if (!selection) {
+      return NextResponse.json({ error: "No prompt template selected for domain" }, { status: 404 })
+    }
+
+    return NextResponse.json(selection)
+  } catch (error) {
+    console.error("[v0] Domain prompt template fetch error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PUT(request: Request, { params }: { params: Promise<{ domain: string }> }) {
+  try {
+    const { domain } = await params
+    const { templateId, version } = await request.json()
+
+    if (!templateId) {
+      return NextResponse.json({ error: "templateId is required" }, { status: 400 })
+    }
+
+    const templateService = new PromptTemplateService()
+    const templateSelection = await templateService.parseSelection(templateId, version)
+    if (typeof templateSelection === "string") {
+      return NextResponse.json({ error: templateSelection }, { status: 400 })
+    }
+
+    const selection: DomainPromptTemplate = {
+      domain,
+      templateId,
+      version: templateSelection.templateVersion,
+      updatedAt: new Date().toISOString(),
+    }
+
+    const redisService = new RedisService()
+    await redisService.storeDomainPromptTemplate(selection)
+
+    return NextResponse.json(selection)
+  } catch (error) {
+    console.error("[v0] Domain prompt template update error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ domain: string }> }) {
+  try {
+    const { domain } = await params
+
+    const redisService = new RedisService()
+    const selection = await redisService.getDomainPromptTemplate(domain)
+
+    if (!selection) {
+      return NextResponse.json({ error: "No prompt template selected for domain" }, { status: 404 })
+    }
+
+    await redisService.deleteDomainPromptTemplate(domain)
+
+    return NextResponse.json({ success: true, domain })
+  } catch (error) {
+    console.error("[v0] Domain prompt template delete error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
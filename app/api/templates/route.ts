@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { PromptTemplateService } from "@/lib/services/prompt-template-service"
+import { RedisService } from "@/lib/services/redis-service"
+import { TEMPLATE_VARIABLES } from "@/lib/utils/prompt-template"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const templateService = new PromptTemplateService()
+    const redisService = new RedisService()
+
+    // Latest version of each template plus every domain with its own template
+    const [templates, domains] = await Promise.all([
+      templateService.listTemplates(),
+      redisService.getDomainPromptTemplates(),
+    ])
+
+    return NextResponse.json({
+      templates,
+      domains,
+      variables: [...TEMPLATE_VARIABLES, "metadata.*"],
+    })
+  } catch (error) {
+    console.error("[v0] Prompt template list error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { id, name, description, template } = await request.json()
+
+    const validationError = PromptTemplateService.validate({ id, template })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    for (const [field, value] of Object.entries({ name, description })) {
+      if (value !== undefined && typeof value !== "string") {
+        return NextResponse.json({ error: `${field} must be a string` }, { status: 400 })
+      }
+    }
+
+    // Saving under an existing ID adds a version; responses cached with older versions are regenerated
+    const templateService = new PromptTemplateService()
+    const saved = await templateService.saveTemplate({ id, name, description, template })
+
+    return NextResponse.json(saved, { status: 201 })
+  } catch (error) {
+    console.error("[v0] Prompt template save error:", error)
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
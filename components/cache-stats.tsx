@@ -9,6 +9,12 @@ interface CacheStatsData {
   cachedPrompts: number
   cachedResponses: number
   cacheHitRate: number
+  semanticCache?: {
+    hits: number
+    misses: number
+    hitRate: number
+    savedTokens: number
+  }
 }
 
 export function CacheStats() {
@@ -90,6 +96,12 @@ export function CacheStats() {
           <div>
             <p className="text-sm text-muted-foreground">Cache Hit Rate</p>
             <p className="text-3xl font-bold mt-1">{stats.cacheHitRate}%</p>
+            {stats.semanticCache && stats.semanticCache.hits + stats.semanticCache.misses > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Semantic: {stats.semanticCache.hitRate}% hits · {stats.semanticCache.savedTokens.toLocaleString()} tokens
+                saved
+              </p>
+            )}
           </div>
           <TrendingUp className="w-8 h-8 text-accent" />
         </div>
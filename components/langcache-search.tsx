@@ -5,27 +5,107 @@ import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { ExternalLink, Loader2, Search } from "lucide-react"
+import { ExternalLink, Loader2, Search, X } from "lucide-react"
 
 interface SearchResult {
   id: string
   url: string
   pageName: string
   snippet: string
+  highlights?: Array<{ start: number; end: number }>
   similarity: number
   fetchedAt?: string
+  section?: string
+  anchor?: string
+  matchedChunks?: number
+  matchedBy?: Array<"semantic" | "keyword">
+  rerankScore?: number
+  metadata?: {
+    author?: string
+    publishedAt?: string
+    type?: string
+    language?: string
+  }
+}
+
+type SearchMode = "hybrid" | "semantic" | "keyword"
+
+interface SearchFilters {
+  domain?: string
+  pathPrefix?: string
+  fetchedAfter?: string
+  fetchedBefore?: string
+  language?: string
+  type?: string
+}
+
+type FacetName = "domain" | "path" | "language" | "type"
+
+type SearchFacets = Record<FacetName, Array<{ value: string; count: number }>> & {
+  scope: "index" | "results" // All indexed pages matching the filters, or only the returned results
+}
+
+// Facet -> the filter it sets, with its label
+const FACETS: Array<{ name: FacetName; filter: keyof SearchFilters; label: string }> = [
+  { name: "domain", filter: "domain", label: "Domain" },
+  { name: "path", filter: "pathPrefix", label: "Path" },
+  { name: "language", filter: "language", label: "Language" },
+  { name: "type", filter: "type", label: "Type" },
+]
+
+const SEARCH_MODES: Array<{ value: SearchMode; label: string }> = [
+  { value: "hybrid", label: "Hybrid" },
+  { value: "semantic", label: "Semantic" },
+  { value: "keyword", label: "Keyword" },
+]
+
+/**
+ * Split a snippet into plain text and <mark>ed query matches
+ */
+function renderSnippet(snippet: string, highlights: SearchResult["highlights"] = []) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+
+  for (const { start, end } of [...highlights].sort((a, b) => a.start - b.start)) {
+    if (start < position || end > snippet.length) continue
+    if (start > position) parts.push(snippet.slice(position, start))
+    parts.push(
+      <mark key={start} className="bg-primary/20 text-foreground rounded-sm">
+        {snippet.slice(start, end)}
+      </mark>,
+    )
+    position = end
+  }
+  parts.push(snippet.slice(position))
+
+  return parts
 }
 
 export function LangCacheSearch() {
   const [query, setQuery] = useState("")
+  const [mode, setMode] = useState<SearchMode>("hybrid")
+  const [rerank, setRerank] = useState(false)
   const [results, setResults] = useState<SearchResult[]>([])
+  const [filters, setFilters] = useState<SearchFilters>({})
+  const [facets, setFacets] = useState<SearchFacets | null>(null)
   const [isSearching, setIsSearching] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [hasSearched, setHasSearched] = useState(false)
 
   const handleSearch = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
+    await runSearch(filters)
+  }
 
+  const updateFilter = async (key: keyof SearchFilters, value?: string) => {
+    const nextFilters = { ...filters, [key]: value || undefined }
+    setFilters(nextFilters)
+    if (hasSearched) {
+      await runSearch(nextFilters)
+    }
+  }
+
+  const runSearch = async (activeFilters: SearchFilters) => {
     if (!query.trim()) {
       setError("Enter text to search cached content.")
       return
@@ -39,7 +119,16 @@ export function LangCacheSearch() {
       const response = await fetch("/api/langcache/search", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query }),
+        body: JSON.stringify({
+          query,
+          mode,
+          rerank,
+          filters: {
+            ...activeFilters,
+            // Date inputs give whole days; include all of the last one
+            ...(activeFilters.fetchedBefore ? { fetchedBefore: `${activeFilters.fetchedBefore}T23:59:59.999Z` } : {}),
+          },
+        }),
       })
 
       const data = await response.json()
@@ -48,9 +137,11 @@ export function LangCacheSearch() {
       }
 
       setResults(Array.isArray(data.results) ? data.results : [])
+      setFacets(data.facets ?? null)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unexpected error during search")
       setResults([])
+      setFacets(null)
     } finally {
       setIsSearching(false)
     }
@@ -80,6 +171,94 @@ export function LangCacheSearch() {
         </Button>
       </form>
 
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground">Mode:</span>
+        {SEARCH_MODES.map((option) => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant={mode === option.value ? "default" : "outline"}
+            onClick={() => setMode(option.value)}
+            disabled={isSearching}
+          >
+            {option.label}
+          </Button>
+        ))}
+        <Button
+          type="button"
+          size="sm"
+          variant={rerank ? "default" : "outline"}
+          onClick={() => setRerank(!rerank)}
+          disabled={isSearching}
+        >
+          Rerank
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground">Indexed between</span>
+        <Input
+          type="date"
+          className="w-40 h-8"
+          value={filters.fetchedAfter || ""}
+          onChange={(event) => updateFilter("fetchedAfter", event.target.value)}
+          disabled={isSearching}
+        />
+        <span className="text-xs text-muted-foreground">and</span>
+        <Input
+          type="date"
+          className="w-40 h-8"
+          value={filters.fetchedBefore || ""}
+          onChange={(event) => updateFilter("fetchedBefore", event.target.value)}
+          disabled={isSearching}
+        />
+      </div>
+
+      {(facets || FACETS.some((facet) => filters[facet.filter])) && (
+        <div className="space-y-2">
+          {facets && (
+            <p className="text-xs text-muted-foreground">
+              {facets.scope === "index"
+                ? "Counts cover all indexed pages matching the filters"
+                : "Counts cover the returned results only"}
+            </p>
+          )}
+          {FACETS.map((facet) => {
+            const active = filters[facet.filter]
+            const values = facets?.[facet.name] ?? []
+            if (!active && values.length === 0) return null
+
+            return (
+              <div key={facet.name} className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-muted-foreground w-16">{facet.label}</span>
+                {active ? (
+                  <Badge
+                    variant="default"
+                    className="cursor-pointer"
+                    onClick={() => !isSearching && updateFilter(facet.filter)}
+                  >
+                    {active}
+                    <X className="w-3 h-3 ml-1" />
+                  </Badge>
+                ) : (
+                  values.map((value) => (
+                    <Badge
+                      key={value.value}
+                      variant="outline"
+                      className="cursor-pointer"
+                      onClick={() => !isSearching && updateFilter(facet.filter, value.value)}
+                    >
+                      {value.value} ({value.count})
+                    </Badge>
+                  ))
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
       {error && (
         <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg p-3">
           {error}
@@ -98,11 +277,41 @@ export function LangCacheSearch() {
                 <div className="space-y-1">
                   <div className="flex items-center gap-2">
                     <h4 className="text-lg font-semibold text-balance">{result.pageName}</h4>
-                    <Badge variant="outline" className="text-muted-foreground border-muted-foreground/20">
-                      {(result.similarity * 100).toFixed(1)}% match
-                    </Badge>
+                    {result.matchedBy?.includes("keyword") && !result.matchedBy.includes("semantic") ? (
+                      <Badge variant="outline" className="text-muted-foreground border-muted-foreground/20">
+                        Keyword match
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-muted-foreground border-muted-foreground/20">
+                        {(result.similarity * 100).toFixed(1)}% match
+                      </Badge>
+                    )}
+                    {result.rerankScore !== undefined && (
+                      <Badge variant="secondary">{(result.rerankScore * 100).toFixed(0)}% relevant</Badge>
+                    )}
+                    {result.matchedBy?.length === 2 && <Badge variant="secondary">keyword + semantic</Badge>}
+                    {result.metadata?.type && <Badge variant="secondary">{result.metadata.type}</Badge>}
                   </div>
                   <p className="text-sm text-muted-foreground break-all">{result.url}</p>
+                  {result.section && (
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">Section:</span> {result.section}
+                      {result.matchedChunks && result.matchedChunks > 1 && (
+                        <span className="text-xs text-muted-foreground"> (+{result.matchedChunks - 1} more matches)</span>
+                      )}
+                    </p>
+                  )}
+                  {(result.metadata?.author || result.metadata?.publishedAt) && (
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        result.metadata.author && `By ${result.metadata.author}`,
+                        result.metadata.publishedAt &&
+                          `Published ${new Date(result.metadata.publishedAt).toLocaleDateString()}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  )}
                   {result.fetchedAt && (
                     <p className="text-xs text-muted-foreground">
                       Indexed {new Date(result.fetchedAt).toLocaleString()}
@@ -112,7 +321,7 @@ export function LangCacheSearch() {
 
                 {result.url && (
                   <a
-                    href={result.url}
+                    href={result.anchor ? `${result.url}#${result.anchor}` : result.url}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
@@ -122,7 +331,9 @@ export function LangCacheSearch() {
                 )}
               </div>
 
-              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{result.snippet}</p>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                {renderSnippet(result.snippet, result.highlights)}
+              </p>
             </div>
           ))}
         </div>
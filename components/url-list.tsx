@@ -2,7 +2,7 @@
 
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { ExternalLink, CheckCircle2, Clock } from "lucide-react"
+import { ExternalLink, CheckCircle2, Clock, Copy } from "lucide-react"
 import { useEffect, useState } from "react"
 
 interface UrlRecord {
@@ -16,6 +16,8 @@ interface UrlRecord {
   indexed: string
   processed: boolean
   error?: string
+  canonicalUrl?: string
+  duplicateOf?: string
 }
 
 export function UrlList() {
@@ -77,7 +79,12 @@ export function UrlList() {
                 <Badge variant="outline" className="bg-background text-muted-foreground border-muted-foreground/20">
                   {url.domain}
                 </Badge>
-                {url.processed ? (
+                {url.duplicateOf ? (
+                  <Badge variant="outline" className="bg-muted text-muted-foreground" title={url.canonicalUrl}>
+                    <Copy className="w-3 h-3 mr-1" />
+                    Duplicate
+                  </Badge>
+                ) : url.processed ? (
                   <Badge variant="outline" className="bg-accent/10 text-accent border-accent/20">
                     <CheckCircle2 className="w-3 h-3 mr-1" />
                     Processed
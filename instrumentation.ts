@@ -0,0 +1,26 @@
+/**
+ * Next.js instrumentation hook: starts the background job worker and the crawl
+ * scheduler once per server process. Set JOB_WORKER_ENABLED=false or
+ * CRAWL_SCHEDULER_ENABLED=false on instances that should only serve HTTP traffic.
+ * Pending data migrations run first, so background jobs see migrated keys.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  try {
+    const { UrlHashMigration } = await import("@/lib/services/url-hash-migration")
+    await new UrlHashMigration().run()
+  } catch (error) {
+    console.error("[v0] URL hash migration failed:", error)
+  }
+
+  if (process.env.JOB_WORKER_ENABLED !== "false") {
+    const { startJobWorker } = await import("@/lib/services/job-worker")
+    startJobWorker()
+  }
+
+  if (process.env.CRAWL_SCHEDULER_ENABLED !== "false") {
+    const { startCrawlScheduler } = await import("@/lib/services/crawl-scheduler")
+    startCrawlScheduler()
+  }
+}
@@ -1,4 +1,7 @@
 import { createClient, type RedisClientType } from "redis"
+import type { PipelineOptions, PipelineResult } from "@/lib/services/pipeline"
+import type { CrawlOptions } from "@/lib/services/link-crawler"
+import type { SearchResultMetadata } from "@/lib/services/langcache-service"
 
 // Singleton Redis client
 let redis: RedisClientType | null = null
@@ -107,6 +110,72 @@ export const RedisKeys = {
 
   // Response cache: response:{urlHash}
   responseCache: (urlHash: string) => `response:${urlHash}`,
+
+  // Background job record: job:{jobId}
+  job: (jobId: string) => `job:${jobId}`,
+
+  // Queue of job IDs waiting for a worker: jobs:pending
+  jobQueue: () => "jobs:pending",
+
+  // Job IDs claimed by a worker but not yet acknowledged: jobs:processing
+  jobProcessing: () => "jobs:processing",
+
+  // Pipeline run state: run:{runId}
+  pipelineRun: (runId: string) => `run:${runId}`,
+
+  // ID of the latest job that resumes a pipeline run: run-job:{runId}
+  pipelineRunJob: (runId: string) => `run-job:${runId}`,
+
+  // Completed URL hashes for a pipeline stage: checkpoint:{runId}:{stage}
+  checkpoint: (runId: string, stage: PipelineStage) => `checkpoint:${runId}:${stage}`,
+
+  // Recurring crawl schedule: schedule:{domain}
+  schedule: (domain: string) => `schedule:${domain}`,
+
+  // Active schedules by next run time (sorted set of domains): schedules
+  scheduleIndex: () => "schedules",
+
+  // Per-domain scraper settings: scraper:{domain}
+  scraperConfig: (domain: string) => `scraper:${domain}`,
+
+  // Content fingerprints of canonical pages (hash of urlHash -> simhash): fingerprints:{domain}
+  fingerprints: (domain: string) => `fingerprints:${domain}`,
+
+  // Embedded page chunk for the local vector index (hash): chunk:{urlHash}:{chunkIndex}
+  vectorChunk: (urlHash: string, chunkIndex: number) => `chunk:${urlHash}:${chunkIndex}`,
+
+  // RediSearch index over chunk:* hashes
+  vectorIndex: () => "idx:chunks",
+
+  // Embedding model the vector index was built with (JSON): idx:chunks:model
+  vectorIndexModel: () => "idx:chunks:model",
+
+  // Full page text for keyword search (hash): doc:{urlHash}
+  searchDocument: (urlHash: string) => `doc:${urlHash}`,
+
+  // RediSearch full-text index over doc:* hashes
+  keywordIndex: () => "idx:pages",
+
+  // Embedded AI prompt and its response for the local semantic cache (hash): semcache:{id}
+  semanticCacheEntry: (id: string) => `semcache:${id}`,
+
+  // RediSearch HNSW index over semcache:* hashes
+  semanticCacheIndex: () => "idx:semcache",
+
+  // Semantic cache hit/miss and token counters (hash)
+  semanticCacheStats: () => "stats:semcache",
+
+  // Prompt template versions (hash of version -> JSON): template:{templateId}
+  promptTemplate: (templateId: string) => `template:${templateId}`,
+
+  // Last version number issued per template ID, kept when a template is deleted (hash)
+  promptTemplateVersions: () => "template-versions",
+
+  // Prompt template selected for a domain: template-domain:{domain}
+  domainPromptTemplate: (domain: string) => `template-domain:${domain}`,
+
+  // Completion time of a one-time data migration: migration:{name}
+  migration: (name: string) => `migration:${name}`,
 }
 
 // Type definitions for Redis data structures
@@ -117,6 +186,8 @@ export interface SitemapMetadata {
   processedUrls: number
   lastProcessed: string
   status: "pending" | "processing" | "completed" | "failed"
+  source?: "sitemap" | "crawl" // "crawl": sitemapUrl holds the start page links were followed from
+  crawlOptions?: CrawlOptions // Reused when a crawled domain is refreshed
 }
 
 export interface UrlRecord {
@@ -130,6 +201,13 @@ export interface UrlRecord {
   indexed: string
   processed: boolean
   error?: string
+  skipReason?: string // Set when the URL must not be fetched (e.g. robots.txt Disallow)
+  lastCrawled?: string // Last successful scrape
+  removedAt?: string // Tombstone: URL disappeared from the sitemap
+  canonicalUrl?: string // Canonical URL when this page is a duplicate
+  duplicateOf?: string // urlHash of the canonical record; duplicates are not indexed or AI-processed
+  duplicateReason?: "canonical" | "near-duplicate"
+  adoptedFrom?: string // urlHash of the duplicate whose canonical link created this record (not in the sitemap)
 }
 
 export interface PageContent {
@@ -138,6 +216,36 @@ export interface PageContent {
   markdown: string
   fetchedAt: string
   contentLength: number
+  contentHash?: string // hashContent() of the markdown
+  indexedHash?: string // contentHash of the version last indexed by the search backend
+  keywordIndexedHash?: string // contentHash of the version last written to the keyword index (doc:*)
+  etag?: string // HTTP validators from the last plain fetch, sent on re-crawls
+  lastModified?: string
+  metadata?: PageMetadata // Structured data parsed from the HTML (absent for Jina results)
+  simhash?: string // simhashContent() of the markdown, for near-duplicate detection
+  duplicateOf?: string // Canonical URL when this page duplicates another (never indexed)
+}
+
+export interface PageMetadata {
+  title?: string
+  description?: string
+  keywords?: string[]
+  canonicalUrl?: string
+  language?: string // BCP 47 tag, e.g. "en" or "en-US"
+  author?: string
+  publishedAt?: string // ISO 8601
+  modifiedAt?: string // ISO 8601
+  siteName?: string
+  type?: string // schema.org @type or og:type, e.g. "Article", "Product", "website"
+  images?: string[] // Absolute URLs, OpenGraph images first
+  openGraph?: Record<string, string> // og:* properties without the prefix (first value wins)
+  jsonLd?: Record<string, unknown>[] // Top-level JSON-LD nodes (@graph flattened)
+  microdata?: MicrodataItem[]
+}
+
+export interface MicrodataItem {
+  type?: string // itemtype, e.g. "https://schema.org/Recipe"
+  properties: Record<string, Array<string | MicrodataItem>>
 }
 
 export interface ProcessingStatus {
@@ -157,10 +265,148 @@ export interface ProcessingStatus {
 export interface PromptCacheEntry {
   prompt: string
   cachedAt: string
+  contentHash?: string // Page content the prompt was built from
+  templateId?: string // Prompt template it was rendered from (absent: the built-in default)
+  templateVersion?: number
 }
 
 export interface ResponseCacheEntry {
   prompt: string
   response: string
   cachedAt: string
+  contentHash?: string // Page content the response was generated from
+  templateId?: string // Prompt template of `prompt` (absent: the built-in default)
+  templateVersion?: number
+}
+
+// AI response reusable for semantically equivalent prompts
+export interface SemanticCacheEntry {
+  prompt: string // Leading part of the prompt that lookups embed and compare
+  promptSimhash: string // simhashContent() of the whole prompt, to verify a match
+  url: string // Page the response was generated for
+  contentHash?: string // Of that page's content; never reused for other content of the same page
+  response: string
+  model: string // Model that generated the response; only reused for the same model
+  template: string // Prompt template and version ("id@version"); only reused for the same one
+  tokens: number // Tokens the generation used, counted as saved on every hit
+  createdAt: string
+}
+
+export interface SemanticCacheStats {
+  hits: number
+  misses: number
+  savedTokens: number
+  usedTokens: number // Spent on misses
+}
+
+// Saving a template under an existing ID adds a version; versions never change
+export interface PromptTemplate {
+  id: string
+  version: number
+  name?: string
+  description?: string
+  template: string // Prompt text with {{variable}} placeholders
+  createdAt?: string // Absent for the built-in default
+}
+
+export interface DomainPromptTemplate {
+  domain: string
+  templateId: string
+  version?: number // Pinned version; the latest is used when absent
+  updatedAt: string
+}
+
+export interface PipelineJob {
+  id: string
+  type: "pipeline" | "resume" | "refresh"
+  status: "queued" | "running" | "completed" | "failed"
+  sitemapUrl: string
+  domain?: string
+  runId?: string
+  options: PipelineOptions
+  attempts: number
+  createdAt: string
+  startedAt?: string
+  heartbeatAt?: string
+  completedAt?: string
+  result?: PipelineResult
+  error?: string
+}
+
+export type PipelineStage = "indexing" | "scraping" | "aiProcessing"
+
+export interface PipelineRun {
+  runId: string
+  mode: "full" | "refresh"
+  sitemapUrl: string
+  options: PipelineOptions
+  domain?: string
+  urls: string[]
+  stage: PipelineStage | "done"
+  status: "running" | "completed" | "failed"
+  stages: PipelineResult["stages"]
+  changes?: PipelineResult["changes"]
+  errors: string[]
+  startedAt: string
+  updatedAt: string
+  totalTime: number
+}
+
+export interface CrawlSchedule {
+  domain: string
+  cron?: string // 5-field cron expression (UTC)
+  intervalMinutes?: number // Used when no cron expression is given
+  paused: boolean
+  options: PipelineOptions
+  nextRunAt: string
+  lastRunAt?: string
+  lastJobId?: string
+  lastError?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DomainScraperConfig {
+  domain: string
+  strategies: string[] // Scraper strategy names, tried in order (empty for the defaults)
+  includeSelectors?: string[] // CSS selectors for the main content; skips content scoring
+  excludeSelectors?: string[] // CSS selectors always removed before extraction
+  updatedAt: string
+}
+
+export interface SearchDocument {
+  urlHash: string
+  url: string
+  domain: string
+  pageName: string
+  markdown: string
+  fetchedAt: string
+  metadata?: SearchResultMetadata
+  path: string // URL path, for prefix filters
+  language?: string // Primary language subtag
+  pageType?: string
+}
+
+export interface VectorChunk {
+  urlHash: string
+  url: string
+  domain: string
+  pageName: string
+  chunkIndex: number
+  section: string
+  anchor: string
+  content: string
+  fetchedAt: string
+  metadata?: SearchResultMetadata
+  path: string
+  language?: string
+  pageType?: string
+  embeddingModel: string // Model that produced `embedding`
+  embedding: number[]
+}
+
+export interface VectorIndexModel {
+  model: string
+  dimensions: number
+  createdAt: string
 }
@@ -1,12 +1,29 @@
 import { generateText } from "ai"
 import { LangCacheService } from "./langcache-service"
 import { RedisService } from "./redis-service"
+import { createSemanticCache, type SemanticCache, type SemanticCacheMatch } from "./semantic-cache"
+import { getTemplateKey, PromptTemplateService, type PromptTemplateSelection } from "./prompt-template-service"
+import { extractDomain, hammingDistance, hashUrl, simhashContent } from "@/lib/utils/hash"
 
-export interface AIProcessingOptions {
+// Reuse a response for prompts at least this similar (0 to 1)
+const SEMANTIC_CACHE_THRESHOLD = Number(process.env.SEMANTIC_CACHE_THRESHOLD || 0.95)
+
+// Semantic cache entries expire so responses follow changing content
+const SEMANTIC_CACHE_TTL_HOURS = Number(process.env.SEMANTIC_CACHE_TTL_HOURS || 168)
+
+// Leading part of a prompt that is embedded to find candidates (LangCache's prompt limit)
+const SEMANTIC_CACHE_KEY_CHARS = 1024
+
+// Max differing SimHash bits (of 64) between the whole prompts of a reused response
+const SEMANTIC_CACHE_MAX_DISTANCE = Number(process.env.SEMANTIC_CACHE_MAX_DISTANCE || 3)
+
+export interface AIProcessingOptions extends PromptTemplateSelection {
   model?: string
   temperature?: number
   maxTokens?: number
   delayBetweenRequests?: number
+  semanticCache?: boolean // Reuse responses to similar prompts (default: on unless SEMANTIC_CACHE=false)
+  similarityThreshold?: number // Overrides SEMANTIC_CACHE_THRESHOLD
 }
 
 export interface AIProcessingResult {
@@ -14,37 +31,108 @@ export interface AIProcessingResult {
   success: boolean
   response?: string
   fromCache?: boolean
+  cacheType?: "exact" | "semantic" // Same page and content, or a similar prompt
+  similarity?: number // Of the semantic cache match
+  tokensUsed?: number
+  tokensSaved?: number // Tokens the reused response originally cost
+  templateId?: string // Prompt template the response was generated with
+  templateVersion?: number
   processingTime?: number
   error?: string
 }
 
+export interface ProcessDomainHooks {
+  skipUrlHashes?: Set<string> // URLs already processed (e.g. by an earlier attempt of the same run)
+  onResult?: (result: AIProcessingResult) => Promise<void>
+}
+
 export class AIProcessor {
   private langCacheService: LangCacheService
   private redisService: RedisService
+  private semanticCache: SemanticCache
+  private promptTemplateService: PromptTemplateService
 
   constructor() {
     this.langCacheService = new LangCacheService()
     this.redisService = new RedisService()
+    this.semanticCache = createSemanticCache()
+    this.promptTemplateService = new PromptTemplateService()
   }
 
   /**
-   * Process a single URL with AI
+   * Process a single URL with AI. The prompt is rendered from the selected
+   * template, else the domain's template, else the default. Without a
+   * response cached for the page's current content and that template, the
+   * semantic cache is checked for a similar prompt before the model is called.
    */
   async processUrl(url: string, options: AIProcessingOptions = {}): Promise<AIProcessingResult> {
-    const { model = "openai/gpt-4o-mini", temperature = 0.7, maxTokens = 2000 } = options
+    const {
+      model = "openai/gpt-4o-mini",
+      temperature = 0.7,
+      maxTokens = 2000,
+      semanticCache = process.env.SEMANTIC_CACHE !== "false",
+      similarityThreshold = SEMANTIC_CACHE_THRESHOLD,
+      templateId,
+      templateVersion,
+    } = options
 
     const startTime = Date.now()
+    let semanticMatch = null as SemanticCacheMatch | null
+    let tokensUsed: number | undefined
 
     try {
-      const result = await this.langCacheService.processWithAI(url, async (prompt) => {
-        const { text } = await generateText({
+      const template = await this.promptTemplateService.resolveTemplate(extractDomain(url), {
+        templateId,
+        templateVersion,
+      })
+      const templateKey = getTemplateKey(template)
+
+      // Only called when no response is cached for the page's content and template
+      const generate = async (prompt: string, contentHash?: string) => {
+        const cacheKey = prompt.slice(0, SEMANTIC_CACHE_KEY_CHARS)
+        const promptSimhash = simhashContent(prompt)
+
+        if (semanticCache) {
+          const match = await this.semanticCache.lookupResponse(cacheKey, model, templateKey, similarityThreshold)
+          if (match && isReusable(match, url, contentHash, promptSimhash)) {
+            semanticMatch = match
+            await this.redisService.recordSemanticCacheLookup(true, match.tokens)
+            console.log("[v0] Semantic cache hit:", { url, cachedUrl: match.url, similarity: match.similarity })
+            // Reused, so not stored as this page's cached response
+            return { response: match.response, reused: true as const }
+          }
+        }
+
+        const { text, usage } = await generateText({
           model,
           prompt,
           temperature,
           maxTokens,
         })
+        tokensUsed = usage.totalTokens ?? 0
+
+        if (semanticCache) {
+          await this.redisService.recordSemanticCacheLookup(false, tokensUsed)
+          await this.semanticCache.storeResponse(
+            {
+              prompt: cacheKey,
+              promptSimhash,
+              url,
+              ...(contentHash ? { contentHash } : {}),
+              response: text,
+              model,
+              template: templateKey,
+              tokens: tokensUsed,
+              createdAt: new Date().toISOString(),
+            },
+            SEMANTIC_CACHE_TTL_HOURS * 60 * 60,
+          )
+        }
+
         return text
-      })
+      }
+
+      const result = await this.langCacheService.processWithAI(url, generate, template)
 
       const processingTime = Date.now() - startTime
 
@@ -52,7 +140,13 @@ export class AIProcessor {
         url,
         success: result.success,
         response: result.response,
-        fromCache: result.fromCache,
+        fromCache: result.fromCache || Boolean(semanticMatch),
+        cacheType: result.fromCache ? "exact" : semanticMatch ? "semantic" : undefined,
+        similarity: semanticMatch?.similarity,
+        tokensUsed,
+        tokensSaved: semanticMatch?.tokens,
+        templateId: template.id,
+        templateVersion: template.version,
         processingTime,
         error: result.error,
       }
@@ -67,11 +161,13 @@ export class AIProcessor {
   }
 
   /**
-   * Process all URLs for a domain
+   * Process all URLs for a domain. The prompt template is resolved once, so
+   * every page of the run uses the same template version.
    */
   async processDomain(
     domain: string,
     options: AIProcessingOptions = {},
+    hooks: ProcessDomainHooks = {},
   ): Promise<{
     results: AIProcessingResult[]
     summary: {
@@ -86,8 +182,16 @@ export class AIProcessor {
 
     const startTime = Date.now()
 
+    const template = await this.promptTemplateService.resolveTemplate(domain, options)
+    const urlOptions: AIProcessingOptions = { ...options, templateId: template.id, templateVersion: template.version }
+    console.log("[v0] Processing domain with prompt template:", { domain, template: getTemplateKey(template) })
+
     // Get all URLs for the domain
-    const urlRecords = await this.redisService.getUrlsByDomain(domain, 1000)
+    const allRecords = await this.redisService.getUrlsByDomain(domain, 1000)
+    const urlRecords = allRecords.filter(
+      (record) =>
+        !record.skipReason && !record.removedAt && !record.duplicateOf && !hooks.skipUrlHashes?.has(record.urlHash),
+    )
     const results: AIProcessingResult[] = []
 
     let successful = 0
@@ -109,9 +213,10 @@ export class AIProcessor {
     // Process each URL
     for (let i = 0; i < urlRecords.length; i++) {
       const urlRecord = urlRecords[i]
-      const result = await this.processUrl(urlRecord.url, options)
+      const result = await this.processUrl(urlRecord.url, urlOptions)
 
       results.push(result)
+      await hooks.onResult?.(result)
 
       if (result.success) {
         successful++
@@ -133,8 +238,8 @@ export class AIProcessor {
         startedAt: new Date(startTime).toISOString(),
       })
 
-      // Rate limiting
-      if (delayBetweenRequests > 0 && i < urlRecords.length - 1) {
+      // Rate limiting (cache hits never reached the model)
+      if (delayBetweenRequests > 0 && !result.fromCache && i < urlRecords.length - 1) {
         await new Promise((resolve) => setTimeout(resolve, delayBetweenRequests))
       }
     }
@@ -166,3 +271,14 @@ export class AIProcessor {
     }
   }
 }
+
+/**
+ * A semantic match found by the prompt's leading part is only reused if the
+ * whole prompts are near-duplicates, and never for a different version of
+ * the same page (the exact cache already missed for its current content).
+ */
+function isReusable(match: SemanticCacheMatch, url: string, contentHash: string | undefined, promptSimhash: string) {
+  if (!match.promptSimhash) return false
+  if (hashUrl(match.url) === hashUrl(url) && match.contentHash !== contentHash) return false
+  return hammingDistance(match.promptSimhash, promptSimhash) <= SEMANTIC_CACHE_MAX_DISTANCE
+}
@@ -0,0 +1,164 @@
+import { createUIMessageStream, streamText, type UIMessageChunk, type UIMessageStreamWriter } from "ai"
+import {
+  LangCacheService,
+  type AnswerCitation,
+  type CachedAnswer,
+  type LangCacheSearchResult,
+} from "./langcache-service"
+import { SearchService, type SearchOptions } from "./search-service"
+import type { SearchFilters } from "./search-backend"
+import { hashContent } from "@/lib/utils/hash"
+
+// Chat model that writes answers (AI SDK model id)
+const ANSWER_MODEL = process.env.ANSWER_MODEL || "openai/gpt-4o-mini"
+
+// Search results given to the model as numbered sources
+const ANSWER_SOURCES = Number(process.env.ANSWER_SOURCES || 6)
+
+// A cached answer is reused for questions at least this similar (0 to 1)
+const ANSWER_CACHE_THRESHOLD = Number(process.env.ANSWER_CACHE_THRESHOLD || 0.92)
+
+// Cached answers expire so they follow re-indexed content
+const ANSWER_CACHE_TTL_HOURS = Number(process.env.ANSWER_CACHE_TTL_HOURS || 24)
+
+// Characters of each source's text included in the prompt
+const MAX_SOURCE_CHARS = 2000
+
+const SYSTEM_PROMPT = `You answer questions using only the numbered sources provided.
+Cite the sources that support each statement inline with their numbers in square brackets, e.g. [1] or [2][3].
+If the sources do not contain the answer, say so briefly instead of guessing.
+Answer in the language of the question.`
+
+export type AnswerOptions = Pick<SearchOptions, "mode" | "filters" | "rerank">
+
+/**
+ * Retrieval-augmented answers: searches the index, asks a chat model to answer
+ * from the top chunks with inline citations, and caches the answer in
+ * LangCache so similar questions skip retrieval and generation.
+ */
+export class AnswerService {
+  private searchService: SearchService
+  private langCacheService: LangCacheService
+
+  constructor() {
+    this.searchService = new SearchService()
+    this.langCacheService = new LangCacheService()
+  }
+
+  /**
+   * Stream an answer as an AI SDK UI message stream: a `source-url` part per
+   * citation, a `data-answer` part with the citation details, then the text.
+   * Returns null when no indexed content matches the question.
+   */
+  async answer(question: string, options: AnswerOptions = {}): Promise<ReadableStream<UIMessageChunk> | null> {
+    const scope = getAnswerScope(options.filters)
+
+    const cached = await this.langCacheService.findCachedAnswer(question, scope, ANSWER_CACHE_THRESHOLD)
+    if (cached) {
+      console.log("[v0] Answer served from cache:", {
+        question,
+        cachedQuestion: cached.question,
+        similarity: cached.similarity,
+      })
+
+      return createUIMessageStream({
+        execute: ({ writer }) => {
+          writer.write({ type: "start" })
+          writeCitations(writer, cached.citations, {
+            fromCache: true,
+            model: cached.model,
+            cachedQuestion: cached.question,
+            similarity: cached.similarity,
+          })
+          writer.write({ type: "text-start", id: "answer" })
+          writer.write({ type: "text-delta", id: "answer", delta: cached.answer })
+          writer.write({ type: "text-end", id: "answer" })
+          writer.write({ type: "finish" })
+        },
+      })
+    }
+
+    const sources = await this.searchService.search(question, { ...options, limit: ANSWER_SOURCES })
+    if (sources.length === 0) {
+      return null
+    }
+
+    const citations = toCitations(sources)
+    console.log("[v0] Answering from sources:", { question, model: ANSWER_MODEL, sources: citations.length })
+
+    const result = streamText({
+      model: ANSWER_MODEL,
+      system: SYSTEM_PROMPT,
+      prompt: buildAnswerPrompt(question, sources),
+      temperature: 0.2,
+      onEnd: async ({ text }) => {
+        if (!text.trim()) return
+        await this.langCacheService.cacheAnswer(
+          {
+            question,
+            answer: text,
+            citations,
+            model: ANSWER_MODEL,
+            scope,
+            createdAt: new Date().toISOString(),
+          },
+          ANSWER_CACHE_TTL_HOURS * 60 * 60 * 1000,
+        )
+      },
+    })
+
+    return createUIMessageStream({
+      execute: ({ writer }) => {
+        writer.write({ type: "start" })
+        writeCitations(writer, citations, { fromCache: false, model: ANSWER_MODEL })
+        writer.merge(result.toUIMessageStream({ sendStart: false }))
+      },
+    })
+  }
+}
+
+/**
+ * Answers are only shared between questions asked with the same filters
+ */
+function getAnswerScope(filters: SearchFilters = {}): string {
+  const entries = Object.entries(filters)
+    .filter(([, value]) => Boolean(value))
+    .sort(([a], [b]) => a.localeCompare(b))
+  return hashContent(JSON.stringify(entries)).slice(0, 16)
+}
+
+function toCitations(sources: LangCacheSearchResult[]): AnswerCitation[] {
+  return sources.map((source, i) => ({
+    index: i + 1,
+    url: source.url,
+    pageName: source.pageName,
+    ...(source.section ? { section: source.section } : {}),
+    ...(source.anchor ? { anchor: source.anchor } : {}),
+  }))
+}
+
+function buildAnswerPrompt(question: string, sources: LangCacheSearchResult[]): string {
+  const blocks = sources.map((source, i) => {
+    const title = source.section ? `${source.pageName} › ${source.section}` : source.pageName
+    const text = (source.content || source.snippet).slice(0, MAX_SOURCE_CHARS)
+    return `[${i + 1}] ${title}\nURL: ${source.url}\n${text}`
+  })
+
+  return `Sources:
+
+${blocks.join("\n\n")}
+
+Question: ${question}`
+}
+
+function writeCitations(writer: UIMessageStreamWriter, citations: AnswerCitation[], info: Record<string, unknown>) {
+  for (const citation of citations) {
+    writer.write({
+      type: "source-url",
+      sourceId: String(citation.index),
+      url: citation.anchor ? `${citation.url}#${citation.anchor}` : citation.url,
+      title: citation.pageName,
+    })
+  }
+  writer.write({ type: "data-answer", data: { ...info, citations } })
+}
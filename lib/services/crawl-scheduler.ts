@@ -0,0 +1,254 @@
+import { RedisService } from "./redis-service"
+import { JobQueue } from "./job-queue"
+import type { PipelineOptions } from "./pipeline"
+import type { CrawlSchedule } from "@/lib/redis"
+import { getNextCronRun, parseCron } from "@/lib/utils/cron"
+
+// A claimed schedule becomes due again after this long if its scheduler dies
+// before storing the next run time
+const CLAIM_LEASE_MS = 5 * 60 * 1000
+
+export interface ScheduleInput {
+  domain: string
+  cron?: string
+  intervalMinutes?: number
+  options?: PipelineOptions
+}
+
+export interface CrawlSchedulerOptions {
+  tickInterval?: number
+}
+
+/**
+ * Recurring per-domain crawls. Each tick enqueues an incremental refresh job
+ * for every schedule whose next run time has passed.
+ */
+export class CrawlScheduler {
+  private redisService: RedisService
+  private jobQueue: JobQueue
+  private tickInterval: number
+  private timer: ReturnType<typeof setInterval> | null = null
+  private ticking = false
+
+  constructor(options: CrawlSchedulerOptions = {}) {
+    this.redisService = new RedisService()
+    this.jobQueue = new JobQueue()
+    this.tickInterval = options.tickInterval ?? 60 * 1000
+  }
+
+  /**
+   * Compute the next run time for a schedule after `from`
+   */
+  static getNextRun(schedule: Pick<CrawlSchedule, "cron" | "intervalMinutes">, from: Date = new Date()): Date {
+    if (schedule.cron) {
+      return getNextCronRun(schedule.cron, from)
+    }
+    if (schedule.intervalMinutes && schedule.intervalMinutes > 0) {
+      return new Date(from.getTime() + schedule.intervalMinutes * 60 * 1000)
+    }
+    throw new Error("Schedule requires a cron expression or a positive intervalMinutes")
+  }
+
+  /**
+   * Validate schedule input, returning an error message if invalid
+   */
+  static validate(input: Partial<ScheduleInput>): string | null {
+    if (!input.domain) return "Domain is required"
+    if (!input.cron && !input.intervalMinutes) return "Either cron or intervalMinutes is required"
+    if (input.cron && input.intervalMinutes) return "Provide either cron or intervalMinutes, not both"
+
+    if (input.cron) {
+      try {
+        parseCron(input.cron)
+        // Valid fields can still describe a date that never occurs (e.g. 30 February)
+        getNextCronRun(input.cron, new Date())
+      } catch (error) {
+        return error instanceof Error ? error.message : "Invalid cron expression"
+      }
+    }
+
+    if (input.intervalMinutes !== undefined) {
+      if (!Number.isFinite(input.intervalMinutes) || input.intervalMinutes < 5) {
+        return "intervalMinutes must be a number of at least 5"
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Create or replace the schedule for a domain
+   */
+  async createSchedule(input: ScheduleInput): Promise<CrawlSchedule> {
+    const now = new Date()
+    const existing = await this.redisService.getSchedule(input.domain)
+
+    const schedule: CrawlSchedule = {
+      domain: input.domain,
+      cron: input.cron,
+      intervalMinutes: input.cron ? undefined : input.intervalMinutes,
+      paused: false,
+      options: input.options || {},
+      nextRunAt: CrawlScheduler.getNextRun(input, now).toISOString(),
+      lastRunAt: existing?.lastRunAt,
+      lastJobId: existing?.lastJobId,
+      createdAt: existing?.createdAt || now.toISOString(),
+      updatedAt: now.toISOString(),
+    }
+
+    await this.redisService.storeSchedule(schedule)
+    return schedule
+  }
+
+  async getSchedule(domain: string): Promise<CrawlSchedule | null> {
+    return await this.redisService.getSchedule(domain)
+  }
+
+  async listSchedules(): Promise<CrawlSchedule[]> {
+    return await this.redisService.getSchedules()
+  }
+
+  /**
+   * Pause or resume a schedule. Resuming recomputes the next run from now.
+   */
+  async setPaused(domain: string, paused: boolean): Promise<CrawlSchedule | null> {
+    const schedule = await this.redisService.getSchedule(domain)
+    if (!schedule) return null
+
+    const now = new Date()
+    schedule.paused = paused
+    schedule.updatedAt = now.toISOString()
+    if (!paused) {
+      schedule.nextRunAt = CrawlScheduler.getNextRun(schedule, now).toISOString()
+    }
+
+    await this.redisService.storeSchedule(schedule)
+    return schedule
+  }
+
+  async deleteSchedule(domain: string): Promise<boolean> {
+    const schedule = await this.redisService.getSchedule(domain)
+    if (!schedule) return false
+
+    await this.redisService.deleteSchedule(domain)
+    return true
+  }
+
+  /**
+   * Enqueue refresh jobs for all due schedules
+   */
+  async tick(now: Date = new Date()): Promise<number> {
+    const dueDomains = await this.redisService.getDueScheduleDomains(now.getTime())
+    let triggered = 0
+
+    for (const domain of dueDomains) {
+      // One failing schedule must not stop the others
+      try {
+        if (await this.runSchedule(domain, now)) triggered++
+      } catch (error) {
+        console.error("[v0] Scheduled crawl failed:", domain, error)
+      }
+    }
+
+    return triggered
+  }
+
+  /**
+   * Claim a due schedule and enqueue its refresh job. Returns true when a job was enqueued.
+   */
+  private async runSchedule(domain: string, now: Date): Promise<boolean> {
+    // Another scheduler instance may claim the same schedule
+    const claimed = await this.redisService.claimSchedule(domain, now.getTime(), now.getTime() + CLAIM_LEASE_MS)
+    if (!claimed) return false
+
+    const schedule = await this.redisService.getSchedule(domain)
+    if (!schedule) {
+      await this.redisService.deleteSchedule(domain)
+      return false
+    }
+    if (schedule.paused) {
+      await this.redisService.storeSchedule(schedule) // Drops it from the due index
+      return false
+    }
+
+    let triggered = false
+    try {
+      if (await this.isPreviousJobActive(schedule)) {
+        console.log("[v0] Previous scheduled crawl still running, skipping:", domain)
+      } else {
+        const metadata = await this.redisService.getSitemapMetadata(domain)
+        if (!metadata) {
+          throw new Error("Domain has no sitemap metadata")
+        }
+
+        const job = await this.jobQueue.enqueueRefresh(metadata, schedule.options)
+        schedule.lastJobId = job.id
+        schedule.lastRunAt = now.toISOString()
+        schedule.lastError = undefined
+        triggered = true
+        console.log(`[v0] Scheduled crawl enqueued for ${domain}:`, job.id)
+      }
+    } catch (error) {
+      schedule.lastError = error instanceof Error ? error.message : "Unknown error"
+      console.error("[v0] Scheduled crawl failed to enqueue:", domain, error)
+    }
+
+    schedule.nextRunAt = CrawlScheduler.getNextRun(schedule, now).toISOString()
+    schedule.updatedAt = new Date().toISOString()
+    await this.redisService.storeSchedule(schedule)
+
+    return triggered
+  }
+
+  /**
+   * Start ticking in the background (no-op if already started)
+   */
+  start(): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      void this.runTick()
+    }, this.tickInterval)
+    void this.runTick()
+    console.log("[v0] Crawl scheduler started")
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+      console.log("[v0] Crawl scheduler stopped")
+    }
+  }
+
+  private async runTick(): Promise<void> {
+    // Skip overlapping ticks if Redis is slow
+    if (this.ticking) return
+    this.ticking = true
+
+    try {
+      await this.tick()
+    } catch (error) {
+      console.error("[v0] Crawl scheduler tick failed:", error)
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  private async isPreviousJobActive(schedule: CrawlSchedule): Promise<boolean> {
+    if (!schedule.lastJobId) return false
+    const job = await this.jobQueue.getJob(schedule.lastJobId)
+    return job?.status === "queued" || job?.status === "running"
+  }
+}
+
+// Singleton scheduler per Node process
+let scheduler: CrawlScheduler | null = null
+
+export function startCrawlScheduler(options: CrawlSchedulerOptions = {}): CrawlScheduler {
+  if (!scheduler) {
+    scheduler = new CrawlScheduler(options)
+    scheduler.start()
+  }
+  return scheduler
+}
@@ -0,0 +1,98 @@
+import { RedisService } from "./redis-service"
+import type { PageContent } from "@/lib/redis"
+import { extractDomain, hammingDistance, hashUrl } from "@/lib/utils/hash"
+
+export interface DuplicateMatch {
+  canonicalUrl: string
+  canonicalHash: string
+  reason: "canonical" | "near-duplicate"
+  distance?: number // SimHash bit distance for near-duplicates
+}
+
+// Max differing SimHash bits (of 64) for two pages to count as near-duplicates
+const NEAR_DUPLICATE_DISTANCE = Number(process.env.NEAR_DUPLICATE_DISTANCE || 3)
+
+/**
+ * Decides whether a freshly scraped page duplicates another page on its site,
+ * either because it declares a different <link rel="canonical"> or because
+ * its content fingerprint is within a few bits of an already indexed page.
+ */
+export class DuplicateDetector {
+  private redisService: RedisService
+
+  constructor() {
+    this.redisService = new RedisService()
+  }
+
+  /**
+   * Find the canonical page for `pageContent`, or null if the page is canonical itself
+   */
+  async findCanonical(urlHash: string, pageContent: PageContent): Promise<DuplicateMatch | null> {
+    const declared = this.getDeclaredCanonical(pageContent)
+    if (declared) return declared
+
+    if (!pageContent.simhash) return null
+
+    const domain = extractDomain(pageContent.url)
+    const fingerprints = await this.redisService.getFingerprints(domain)
+
+    let best: { urlHash: string; distance: number } | null = null
+    for (const [otherHash, simhash] of Object.entries(fingerprints)) {
+      if (otherHash === urlHash) continue
+
+      const distance = hammingDistance(pageContent.simhash, simhash)
+      if (distance <= NEAR_DUPLICATE_DISTANCE && (!best || distance < best.distance)) {
+        best = { urlHash: otherHash, distance }
+      }
+    }
+
+    if (!best) return null
+
+    const record = await this.redisService.getUrlRecord(best.urlHash)
+    if (!record || record.removedAt) {
+      // Stale fingerprint; the page it belonged to is gone
+      await this.redisService.removeFingerprint(domain, best.urlHash)
+      return null
+    }
+
+    return {
+      canonicalUrl: record.canonicalUrl || record.url,
+      canonicalHash: record.duplicateOf || record.urlHash,
+      reason: "near-duplicate",
+      distance: best.distance,
+    }
+  }
+
+  /**
+   * Remember a canonical page's fingerprint so later pages can be compared against it
+   */
+  async recordCanonical(urlHash: string, pageContent: PageContent): Promise<void> {
+    if (!pageContent.simhash) return
+    await this.redisService.storeFingerprint(extractDomain(pageContent.url), urlHash, pageContent.simhash)
+  }
+
+  /**
+   * Stop comparing new pages against a page (it became a duplicate or was removed)
+   */
+  async forget(url: string, urlHash: string): Promise<void> {
+    await this.redisService.removeFingerprint(extractDomain(url), urlHash)
+  }
+
+  /**
+   * A declared canonical counts only when it points elsewhere on the same site
+   */
+  private getDeclaredCanonical(pageContent: PageContent): DuplicateMatch | null {
+    const canonicalUrl = pageContent.metadata?.canonicalUrl
+    if (!canonicalUrl || !/^https?:\/\//i.test(canonicalUrl)) return null
+    if (extractDomain(canonicalUrl) !== extractDomain(pageContent.url)) return null
+
+    const canonicalHash = hashUrl(canonicalUrl)
+    if (canonicalHash === hashUrl(pageContent.url)) return null
+
+    return {
+      canonicalUrl,
+      canonicalHash,
+      reason: "canonical",
+    }
+  }
+}
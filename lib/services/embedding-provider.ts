@@ -0,0 +1,142 @@
+import { embedMany } from "ai"
+import type { FeatureExtractionPipeline } from "@huggingface/transformers"
+
+/**
+ * Turns text into vectors for the local vector index. Chunks and queries must
+ * be embedded by the same model; `model` is stored with every indexed vector
+ * so a mismatch can be detected.
+ */
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName
+  model: string
+  embed: (values: string[]) => Promise<number[][]>
+}
+
+export type EmbeddingProviderName = "gateway" | "openai" | "local"
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ["gateway", "openai", "local"]
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  gateway: "openai/text-embedding-3-small",
+  openai: "text-embedding-3-small",
+  local: "Xenova/all-MiniLM-L6-v2",
+}
+
+// Texts per forward pass of the local model; bounds memory on small machines
+const LOCAL_BATCH_SIZE = 16
+
+/**
+ * AI SDK embedding model id, resolved through the AI Gateway
+ */
+export class GatewayEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "gateway"
+
+  constructor(readonly model: string = DEFAULT_MODELS.gateway) {}
+
+  async embed(values: string[]): Promise<number[][]> {
+    const { embeddings } = await embedMany({ model: this.model, values })
+    return embeddings
+  }
+}
+
+/**
+ * Any server implementing OpenAI's `POST /embeddings` (OpenAI, Azure OpenAI,
+ * Ollama, vLLM, LM Studio, text-embeddings-inference, ...)
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai"
+  private baseUrl: string
+  private apiKey?: string
+
+  constructor(
+    readonly model: string = DEFAULT_MODELS.openai,
+    options: { baseUrl?: string; apiKey?: string } = {},
+  ) {
+    this.baseUrl = (options.baseUrl || "https://api.openai.com/v1").replace(/\/+$/, "")
+    this.apiKey = options.apiKey
+  }
+
+  async embed(values: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, input: values }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: HTTP ${response.status} ${await response.text()}`)
+    }
+
+    const { data } = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> }
+    return data.sort((a, b) => a.index - b.index).map((item) => item.embedding)
+  }
+}
+
+/**
+ * Sentence embeddings computed on the CPU with transformers.js (ONNX Runtime).
+ * The model is downloaded from the Hugging Face Hub on first use and cached;
+ * no API key is needed. Requires the @huggingface/transformers package.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local"
+
+  constructor(readonly model: string = DEFAULT_MODELS.local) {}
+
+  async embed(values: string[]): Promise<number[][]> {
+    const extractor = await loadLocalPipeline(this.model)
+    const embeddings: number[][] = []
+
+    for (let i = 0; i < values.length; i += LOCAL_BATCH_SIZE) {
+      const output = await extractor(values.slice(i, i + LOCAL_BATCH_SIZE), { pooling: "mean", normalize: true })
+      embeddings.push(...(output.tolist() as number[][]))
+    }
+
+    return embeddings
+  }
+}
+
+// Loaded pipelines by model id, shared across provider instances
+const localPipelines = new Map<string, Promise<FeatureExtractionPipeline>>()
+
+function loadLocalPipeline(model: string): Promise<FeatureExtractionPipeline> {
+  let loading = localPipelines.get(model)
+  if (!loading) {
+    loading = (async () => {
+      console.log("[v0] Loading local embedding model:", model)
+      const { pipeline } = await import("@huggingface/transformers")
+      return await pipeline("feature-extraction", model, { dtype: "fp32" })
+    })()
+    // A failed load (e.g. no network for the first download) is retried next time
+    loading.catch(() => localPipelines.delete(model))
+    localPipelines.set(model, loading)
+  }
+  return loading
+}
+
+/**
+ * EMBEDDING_PROVIDER picks the provider ("gateway" by default) and
+ * EMBEDDING_MODEL overrides its default model
+ */
+export function getEmbeddingProviderName(): EmbeddingProviderName {
+  const configured = process.env.EMBEDDING_PROVIDER?.toLowerCase() as EmbeddingProviderName | undefined
+  return configured && EMBEDDING_PROVIDERS.includes(configured) ? configured : "gateway"
+}
+
+export function createEmbeddingProvider(name: EmbeddingProviderName = getEmbeddingProviderName()): EmbeddingProvider {
+  const model = process.env.EMBEDDING_MODEL || DEFAULT_MODELS[name]
+
+  switch (name) {
+    case "openai":
+      return new OpenAICompatibleEmbeddingProvider(model, {
+        baseUrl: process.env.EMBEDDING_BASE_URL,
+        apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+      })
+    case "local":
+      return new LocalEmbeddingProvider(model)
+    default:
+      return new GatewayEmbeddingProvider(model)
+  }
+}
@@ -0,0 +1,197 @@
+import crypto from "crypto"
+import { RedisService } from "./redis-service"
+import type { PipelineOptions, PipelineResult } from "./pipeline"
+import type { PipelineJob, PipelineRun, SitemapMetadata } from "@/lib/redis"
+
+/**
+ * Redis-backed queue for long-running pipeline jobs.
+ *
+ * Job IDs live in two lists: `jobs:pending` (waiting) and `jobs:processing`
+ * (claimed by a worker). Claiming uses LMOVE so a job is never lost between
+ * the two lists, and a job stays on `jobs:processing` until it is acknowledged.
+ */
+export class JobQueue {
+  private redisService: RedisService
+
+  constructor() {
+    this.redisService = new RedisService()
+  }
+
+  /**
+   * Enqueue a full pipeline run for a sitemap
+   */
+  async enqueuePipelineRun(sitemapUrl: string, options: PipelineOptions = {}): Promise<PipelineJob> {
+    const jobId = crypto.randomUUID()
+    const job: PipelineJob = {
+      id: jobId,
+      type: "pipeline",
+      status: "queued",
+      sitemapUrl,
+      runId: jobId, // The job ID doubles as the pipeline run ID
+      options,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    }
+
+    await this.redisService.storeJob(job)
+    await this.redisService.enqueueJob(job.id)
+
+    return job
+  }
+
+  /**
+   * Enqueue an incremental refresh of an indexed domain
+   */
+  async enqueueRefresh(metadata: SitemapMetadata, options: PipelineOptions = {}): Promise<PipelineJob> {
+    const jobId = crypto.randomUUID()
+    const job: PipelineJob = {
+      id: jobId,
+      type: "refresh",
+      status: "queued",
+      sitemapUrl: metadata.sitemapUrl,
+      domain: metadata.domain,
+      runId: jobId,
+      options,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    }
+
+    await this.redisService.storeJob(job)
+    await this.redisService.enqueueJob(job.id)
+
+    return job
+  }
+
+  /**
+   * Enqueue the resumption of an earlier pipeline run. Returns null when a job
+   * for the run is still queued or running, so a run is never executed twice
+   * at once.
+   */
+  async enqueueResume(run: PipelineRun): Promise<PipelineJob | null> {
+    // Runs are first executed by the job with the run's ID
+    const previousJobId = await this.redisService.getPipelineRunJobId(run.runId)
+    const previousJob = await this.redisService.getJob(previousJobId ?? run.runId)
+    if (previousJob && (previousJob.status === "queued" || previousJob.status === "running")) {
+      return null
+    }
+
+    const job: PipelineJob = {
+      id: crypto.randomUUID(),
+      type: "resume",
+      status: "queued",
+      sitemapUrl: run.sitemapUrl,
+      runId: run.runId,
+      options: run.options,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    }
+
+    // Stored before claiming, so a concurrent request that reads the new job ID
+    // finds the job queued
+    await this.redisService.storeJob(job)
+    if (!(await this.redisService.claimPipelineRun(run.runId, job.id, previousJobId))) {
+      await this.fail(job, "Another job claimed the pipeline run")
+      return null
+    }
+
+    await this.redisService.enqueueJob(job.id)
+
+    return job
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(jobId: string): Promise<PipelineJob | null> {
+    return await this.redisService.getJob(jobId)
+  }
+
+  /**
+   * Claim the next pending job and mark it as running
+   */
+  async claimNext(): Promise<PipelineJob | null> {
+    const jobId = await this.redisService.claimNextJobId()
+    if (!jobId) return null
+
+    const job = await this.redisService.getJob(jobId)
+    if (!job) {
+      // Record expired or was deleted; drop the dangling ID
+      await this.redisService.acknowledgeJob(jobId)
+      return null
+    }
+
+    const now = new Date().toISOString()
+    job.status = "running"
+    job.attempts += 1
+    job.startedAt = now
+    job.heartbeatAt = now
+    await this.redisService.storeJob(job)
+
+    return job
+  }
+
+  /**
+   * Refresh the heartbeat of a running job so it is not treated as stalled
+   */
+  async heartbeat(job: PipelineJob): Promise<void> {
+    job.heartbeatAt = new Date().toISOString()
+    await this.redisService.storeJob(job)
+  }
+
+  /**
+   * Store the final pipeline result and acknowledge the job
+   */
+  async complete(job: PipelineJob, result: PipelineResult): Promise<void> {
+    job.status = result.success ? "completed" : "failed"
+    job.result = result
+    job.error = result.success ? undefined : result.errors[result.errors.length - 1]
+    job.completedAt = new Date().toISOString()
+
+    await this.redisService.storeJob(job)
+    await this.redisService.acknowledgeJob(job.id)
+  }
+
+  /**
+   * Mark a job as failed and acknowledge it
+   */
+  async fail(job: PipelineJob, error: string): Promise<void> {
+    job.status = "failed"
+    job.error = error
+    job.completedAt = new Date().toISOString()
+
+    await this.redisService.storeJob(job)
+    await this.redisService.acknowledgeJob(job.id)
+  }
+
+  /**
+   * Re-queue jobs whose worker stopped sending heartbeats (e.g. the process
+   * crashed). Jobs that already used up their attempts are marked as failed.
+   */
+  async recoverStalled(staleAfterMs: number, maxAttempts: number): Promise<number> {
+    const jobIds = await this.redisService.getProcessingJobIds()
+    let recovered = 0
+
+    for (const jobId of jobIds) {
+      const job = await this.redisService.getJob(jobId)
+      if (!job) {
+        await this.redisService.acknowledgeJob(jobId)
+        continue
+      }
+
+      const lastSeen = new Date(job.heartbeatAt || job.startedAt || job.createdAt).getTime()
+      if (Date.now() - lastSeen < staleAfterMs) continue
+
+      if (job.attempts >= maxAttempts) {
+        await this.fail(job, `Job stalled after ${job.attempts} attempt(s)`)
+        continue
+      }
+
+      job.status = "queued"
+      await this.redisService.storeJob(job)
+      await this.redisService.requeueJob(job.id)
+      recovered++
+    }
+
+    return recovered
+  }
+}
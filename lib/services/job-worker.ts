@@ -0,0 +1,144 @@
+import { JobQueue } from "./job-queue"
+import { ProcessingPipeline, type PipelineResult } from "./pipeline"
+import type { PipelineJob } from "@/lib/redis"
+
+export interface JobWorkerOptions {
+  pollInterval?: number
+  errorBackoff?: number
+  heartbeatInterval?: number
+  staleAfter?: number
+  maxAttempts?: number
+}
+
+/**
+ * Polls the Redis job queue and runs pipeline jobs one at a time.
+ */
+export class JobWorker {
+  private queue: JobQueue
+  private options: Required<JobWorkerOptions>
+  private running = false
+  private loopPromise: Promise<void> | null = null
+
+  constructor(options: JobWorkerOptions = {}) {
+    this.queue = new JobQueue()
+    this.options = {
+      pollInterval: options.pollInterval ?? 2000,
+      errorBackoff: options.errorBackoff ?? 30000,
+      heartbeatInterval: options.heartbeatInterval ?? 15000,
+      staleAfter: options.staleAfter ?? 2 * 60 * 1000,
+      maxAttempts: options.maxAttempts ?? 3,
+    }
+  }
+
+  /**
+   * Start the worker loop (no-op if already running)
+   */
+  start(): void {
+    if (this.running) return
+    this.running = true
+    this.loopPromise = this.loop()
+    console.log("[v0] Job worker started")
+  }
+
+  /**
+   * Stop the worker after the current job finishes
+   */
+  async stop(): Promise<void> {
+    this.running = false
+    await this.loopPromise
+    this.loopPromise = null
+    console.log("[v0] Job worker stopped")
+  }
+
+  private async loop(): Promise<void> {
+    let lastRecovery = 0
+
+    while (this.running) {
+      try {
+        // Periodically pick up jobs abandoned by crashed workers
+        if (Date.now() - lastRecovery >= this.options.staleAfter) {
+          const recovered = await this.queue.recoverStalled(this.options.staleAfter, this.options.maxAttempts)
+          if (recovered > 0) {
+            console.log(`[v0] Re-queued ${recovered} stalled job(s)`)
+          }
+          lastRecovery = Date.now()
+        }
+
+        const job = await this.queue.claimNext()
+        if (!job) {
+          await this.sleep(this.options.pollInterval)
+          continue
+        }
+
+        await this.runJob(job)
+      } catch (error) {
+        console.error("[v0] Job worker error:", error)
+        await this.sleep(this.options.errorBackoff)
+      }
+    }
+  }
+
+  /**
+   * Execute a claimed job, keeping its heartbeat fresh while it runs
+   */
+  private async runJob(job: PipelineJob): Promise<void> {
+    console.log(`[v0] Running job ${job.id} (attempt ${job.attempts})`)
+
+    let pendingHeartbeat: Promise<void> = Promise.resolve()
+    const heartbeat = setInterval(() => {
+      pendingHeartbeat = this.queue.heartbeat(job).catch((error) => {
+        console.error("[v0] Job heartbeat failed:", error)
+      })
+    }, this.options.heartbeatInterval)
+
+    try {
+      const result = await this.executeJob(job)
+
+      clearInterval(heartbeat)
+      await pendingHeartbeat
+      await this.queue.complete(job, result)
+      console.log(`[v0] Job ${job.id} finished:`, job.status)
+    } catch (error) {
+      clearInterval(heartbeat)
+      await pendingHeartbeat
+      await this.queue.fail(job, error instanceof Error ? error.message : "Unknown error")
+      console.error(`[v0] Job ${job.id} failed:`, error)
+    }
+  }
+
+  private async executeJob(job: PipelineJob): Promise<PipelineResult> {
+    const pipeline = new ProcessingPipeline()
+
+    if (job.type === "resume" && job.runId) {
+      return await pipeline.resume(job.runId)
+    }
+
+    const runId = job.runId ?? job.id
+
+    // A retried job continues from its checkpoints instead of starting over
+    if (job.attempts > 1 && (await pipeline.getRun(runId))) {
+      return await pipeline.resume(runId)
+    }
+
+    if (job.type === "refresh" && job.domain) {
+      return await pipeline.refresh(job.domain, job.options, runId)
+    }
+
+    return await pipeline.run(job.sitemapUrl, job.options, runId)
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+  }
+}
+
+// Singleton worker per Node process
+let worker: JobWorker | null = null
+
+export function startJobWorker(options: JobWorkerOptions = {}): JobWorker {
+  if (!worker) {
+    worker = new JobWorker(options)
+    worker.start()
+  }
+  return worker
+}
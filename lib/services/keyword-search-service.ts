@@ -0,0 +1,163 @@
+import { RedisService } from "./redis-service"
+import type { LangCacheSearchResult } from "./langcache-service"
+import type { SearchFilters } from "./search-backend"
+import type { SearchFacets } from "./search-service"
+import type { PageContent } from "@/lib/redis"
+import { extractDomain, hashUrl } from "@/lib/utils/hash"
+import { buildSnippet } from "@/lib/utils/snippet"
+import { getFilterFields, getPathFacet, sortFacetCounts, toSearchMetadata } from "@/lib/utils/search-chunks"
+
+// Set once Redis turns out to lack the query engine (plain Redis without FT.*
+// commands), so indexing and search stop retrying and logging on every page
+let queryEngineMissing = false
+
+// Distinct paths read to build the path facet
+const PATH_FACET_ROWS = 10000
+
+/**
+ * BM25 full-text search over page markdown, backed by a RediSearch TEXT index.
+ * Catches exact terms (SKUs, error codes, identifiers) that embeddings blur.
+ */
+export class KeywordSearchService {
+  private redisService: RedisService
+  private indexReady = false
+
+  constructor() {
+    this.redisService = new RedisService()
+  }
+
+  async indexPageContent(pageContent: PageContent): Promise<boolean> {
+    if (queryEngineMissing) return false
+
+    try {
+      await this.ensureIndex()
+      await this.redisService.storeSearchDocument({
+        urlHash: hashUrl(pageContent.url),
+        url: pageContent.url,
+        domain: extractDomain(pageContent.url),
+        pageName: pageContent.pageName,
+        markdown: pageContent.markdown,
+        fetchedAt: pageContent.fetchedAt,
+        ...(pageContent.metadata ? { metadata: toSearchMetadata(pageContent.metadata) } : {}),
+        ...getFilterFields(pageContent),
+      })
+      return true
+    } catch (error) {
+      if (!isQueryEngineMissing(error)) console.error("[v0] Keyword indexing failed:", error)
+      return false
+    }
+  }
+
+  async removeIndexedPage(url: string, urlHash = hashUrl(url)): Promise<void> {
+    try {
+      await this.redisService.deleteSearchDocument(urlHash)
+    } catch (error) {
+      console.error("[v0] Keyword index delete failed:", error)
+    }
+  }
+
+  /**
+   * Pages containing every query term, best BM25 score first. When no page
+   * contains all of them, pages containing any term are returned instead.
+   */
+  async search(query: string, limit = 20, filters: SearchFilters = {}): Promise<LangCacheSearchResult[]> {
+    const terms = toQueryTerms(query)
+    if (terms.length === 0 || queryEngineMissing) return []
+
+    try {
+      await this.ensureIndex()
+
+      let matches = await this.redisService.searchDocuments(terms.join(" "), limit, filters)
+      if (matches.length === 0 && terms.length > 1) {
+        matches = await this.redisService.searchDocuments(terms.join(" | "), limit, filters)
+      }
+
+      console.log("[v0] Keyword search request:", { query, filters, resultCount: matches.length })
+
+      return matches.map(({ document, fragment, score }) => {
+        // `fragment` is the passage RediSearch summarized around the matches;
+        // rerankers and answers get the full markdown as content
+        const snippet = buildSnippet(fragment, query)
+        return {
+          id: document.urlHash,
+          url: document.url,
+          pageName: document.pageName || "Untitled",
+          snippet: snippet.text,
+          highlights: snippet.highlights,
+          content: document.markdown,
+          similarity: 0,
+          prompt: query,
+          fetchedAt: document.fetchedAt || undefined,
+          metadata: document.metadata,
+          score,
+          matchedBy: ["keyword"],
+        }
+      })
+    } catch (error) {
+      if (!isQueryEngineMissing(error)) console.error("[v0] Keyword search failed:", error)
+      return []
+    }
+  }
+
+  /**
+   * Facet counts over every indexed page matching the filters, or null when
+   * the index cannot be aggregated
+   */
+  async countFacets(filters: SearchFilters = {}): Promise<SearchFacets | null> {
+    if (queryEngineMissing) return null
+
+    try {
+      await this.ensureIndex()
+      const [domain, paths, language, type] = await Promise.all([
+        this.redisService.countSearchDocuments("domain", filters),
+        this.redisService.countSearchDocuments("path", filters, PATH_FACET_ROWS),
+        this.redisService.countSearchDocuments("language", filters),
+        this.redisService.countSearchDocuments("pageType", filters),
+      ])
+
+      // Documents store the full path; the facet is its first segment
+      const path = new Map<string, number>()
+      for (const { value, count } of paths) {
+        const facet = getPathFacet(value)
+        path.set(facet, (path.get(facet) || 0) + count)
+      }
+
+      return { domain, path: sortFacetCounts(path), language, type, scope: "index" }
+    } catch (error) {
+      if (!isQueryEngineMissing(error)) console.error("[v0] Keyword facet counts failed:", error)
+      return null
+    }
+  }
+
+  private async ensureIndex(): Promise<void> {
+    if (this.indexReady) return
+    await this.redisService.ensureKeywordIndex()
+    this.indexReady = true
+  }
+}
+
+/**
+ * Whether an error means Redis has no FT.* commands. Logs a warning the first time.
+ */
+function isQueryEngineMissing(error: unknown): boolean {
+  if (!(error instanceof Error && /unknown command/i.test(error.message))) return false
+
+  if (!queryEngineMissing) {
+    queryEngineMissing = true
+    console.warn("[v0] Redis has no query engine (FT.* commands); keyword search is disabled")
+  }
+  return true
+}
+
+/**
+ * Turn free text into RediSearch terms. Punctuation separates tokens at index
+ * time, so a word like "ERR-1042" becomes the exact phrase "ERR 1042"; all
+ * other query syntax in the input is dropped.
+ */
+function toQueryTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .map((word) => word.match(/[\p{L}\p{N}_]+/gu) || [])
+    .filter((tokens) => tokens.length > 0)
+    .map((tokens) => (tokens.length > 1 ? `"${tokens.join(" ")}"` : tokens[0]))
+}
@@ -1,33 +1,94 @@
 import { LangCache } from "@redis-ai/langcache"
 import { RedisService } from "./redis-service"
+import type { SearchBackend, SearchFilters } from "./search-backend"
+import type { SemanticCache, SemanticCacheMatch } from "./semantic-cache"
+import { DEFAULT_PROMPT_TEMPLATE, DEFAULT_TEMPLATE_ID, LEGACY_TEMPLATE_VERSION } from "./prompt-template-service"
 import { extractDomain, hashUrl } from "@/lib/utils/hash"
-import type { PageContent, ResponseCacheEntry } from "@/lib/redis"
-
-export interface PromptData {
-  pageName: string
-  pageData: {
-    url: string
-    content: string
-  }
-}
+import { buildSnippet, type SnippetHighlight } from "@/lib/utils/snippet"
+import { renderTemplate } from "@/lib/utils/prompt-template"
+import {
+  chunkPage,
+  chunkSearchText,
+  getFilterFields,
+  groupByPage,
+  matchesSearchFilters,
+  normalizeLanguage,
+  toSearchMetadata,
+} from "@/lib/utils/search-chunks"
+import type {
+  PageContent,
+  PageMetadata,
+  PromptCacheEntry,
+  PromptTemplate,
+  ResponseCacheEntry,
+  SemanticCacheEntry,
+} from "@/lib/redis"
 
 export interface CachedResponse {
   prompt: string
   response: string
   cachedAt: string
   fromCache: boolean
+  contentHash?: string
+  templateId?: string
+  templateVersion?: number
+}
+
+// Returned by an AI function that reused a response generated for another
+// prompt (e.g. from the semantic cache); it is not cached as this page's response
+export interface ReusedResponse {
+  response: string
+  reused: true
+}
+
+export type AIFunction = (prompt: string, contentHash?: string) => Promise<string | ReusedResponse>
+
+// Source of a generated answer; `index` is the number cited inline as [index]
+export interface AnswerCitation {
+  index: number
+  url: string
+  pageName: string
+  section?: string
+  anchor?: string
+}
+
+// Retrieval-augmented answer stored in LangCache under the question as prompt
+export interface CachedAnswer {
+  question: string
+  answer: string
+  citations: AnswerCitation[]
+  model: string
+  scope: string // Hash of the search filters the answer was grounded with
+  createdAt: string
+  similarity?: number // Of the question that found this entry
 }
 
 export interface LangCacheSearchResult {
   id: string
   url: string
   pageName: string
-  snippet: string
+  snippet: string // Passage that best matches the query
+  highlights?: SnippetHighlight[] // Query term ranges within `snippet`
   similarity: number
   prompt: string
   fetchedAt?: string
+  metadata?: SearchResultMetadata
+  section?: string // Heading of the best-matching chunk
+  anchor?: string // URL fragment for that heading
+  chunkIndex?: number
+  matchedChunks?: number // Chunks of this page among the raw results
+  score?: number // BM25 score (keyword mode) or fused rank score (hybrid mode)
+  matchedBy?: Array<"semantic" | "keyword">
+  rerankScore?: number // Reranker relevance (0 to 1) when the search was reranked
+  content?: string // Full text of the matched chunk, for reranking; not sent to clients
 }
 
+// Subset of PageMetadata stored with each LangCache entry for display and filtering
+export type SearchResultMetadata = Pick<
+  PageMetadata,
+  "description" | "canonicalUrl" | "language" | "author" | "publishedAt" | "modifiedAt" | "siteName" | "type"
+> & { image?: string }
+
 interface LangCacheConfig {
   serverURL: string
   cacheId: string
@@ -35,7 +96,8 @@ interface LangCacheConfig {
   useAttributes: boolean
 }
 
-export class LangCacheService {
+export class LangCacheService implements SearchBackend, SemanticCache {
+  readonly name = "langcache"
   private langCache: LangCache | null = null
   private redisService: RedisService
   private config: LangCacheConfig | null = null
@@ -103,40 +165,24 @@ export class LangCacheService {
   }
 
   /**
-   * Generate a structured prompt from page content
+   * Generate a prompt from page content with a prompt template
    */
-  generatePrompt(pageContent: PageContent): string {
-    const promptData: PromptData = {
-      pageName: pageContent.pageName,
-      pageData: {
-        url: pageContent.url,
-        content: pageContent.markdown,
-      },
-    }
-
-    // Create a structured prompt with clear formatting
-    const prompt = `Page Analysis Request
-
-Page Name: ${promptData.pageName}
-
-Page Data:
-${JSON.stringify(promptData.pageData, null, 2)}
-
-Please analyze this page content and provide insights about:
-1. Main topics and themes
-2. Key information and takeaways
-3. Content structure and organization
-4. Potential use cases or applications`
-
-    return prompt
+  generatePrompt(pageContent: PageContent, template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE): string {
+    return renderTemplate(template.template, pageContent)
   }
 
   /**
    * Cache a prompt using LangCache
    */
-  async cachePrompt(url: string, prompt: string): Promise<void> {
+  async cachePrompt(url: string, prompt: string, contentHash?: string, template?: PromptTemplate): Promise<void> {
     const urlHash = hashUrl(url)
-    await this.redisService.storePromptCache(urlHash, prompt)
+    const entry: PromptCacheEntry = {
+      prompt,
+      cachedAt: new Date().toISOString(),
+      ...(contentHash ? { contentHash } : {}),
+      ...(template ? { templateId: template.id, templateVersion: template.version } : {}),
+    }
+    await this.redisService.storePromptCache(urlHash, entry)
   }
 
   /**
@@ -151,12 +197,20 @@ Please analyze this page content and provide insights about:
   /**
    * Cache an AI response using LangCache
    */
-  async cacheResponse(url: string, prompt: string, response: string): Promise<void> {
+  async cacheResponse(
+    url: string,
+    prompt: string,
+    response: string,
+    contentHash?: string,
+    template?: PromptTemplate,
+  ): Promise<void> {
     const urlHash = hashUrl(url)
     const entry: ResponseCacheEntry = {
       prompt,
       response,
       cachedAt: new Date().toISOString(),
+      ...(contentHash ? { contentHash } : {}),
+      ...(template ? { templateId: template.id, templateVersion: template.version } : {}),
     }
     await this.redisService.storeResponseCache(urlHash, entry)
   }
@@ -174,16 +228,43 @@ Please analyze this page content and provide insights about:
       response: cached.response,
       cachedAt: cached.cachedAt,
       fromCache: true,
+      contentHash: cached.contentHash,
+      templateId: cached.templateId,
+      templateVersion: cached.templateVersion,
     }
   }
 
+  /**
+   * A cached prompt or response is current if it was rendered from `template`
+   * and, when both it and the stored page carry a content hash, the hashes
+   * match. Entries from before content hashing, or whose page content has
+   * expired, are kept; entries from before templates count as version 1 of
+   * the built-in default (the prompt used then).
+   */
+  private isCurrent(
+    entry: Pick<PromptCacheEntry, "contentHash" | "templateId" | "templateVersion">,
+    pageContent: PageContent | null,
+    template: PromptTemplate,
+  ): boolean {
+    const templateId = entry.templateId ?? DEFAULT_TEMPLATE_ID
+    const templateVersion = entry.templateVersion ?? LEGACY_TEMPLATE_VERSION
+    if (templateId !== template.id || templateVersion !== template.version) return false
+
+    if (!entry.contentHash || !pageContent?.contentHash) return true
+    return entry.contentHash === pageContent.contentHash
+  }
+
   /**
    * Process a page: generate prompt, cache it, and prepare for AI response
    */
-  async processPage(url: string): Promise<{
+  async processPage(
+    url: string,
+    template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE,
+  ): Promise<{
     success: boolean
     prompt?: string
     cached?: boolean
+    contentHash?: string
     error?: string
   }> {
     try {
@@ -198,26 +279,28 @@ Please analyze this page content and provide insights about:
         }
       }
 
-      // Check if prompt is already cached
-      const cachedPrompt = await this.getCachedPrompt(url)
-      if (cachedPrompt) {
+      // Check if a prompt for this version of the content and template is already cached
+      const cachedPrompt = await this.redisService.getPromptCache(urlHash)
+      if (cachedPrompt && this.isCurrent(cachedPrompt, pageContent, template)) {
         return {
           success: true,
-          prompt: cachedPrompt,
+          prompt: cachedPrompt.prompt,
           cached: true,
+          contentHash: pageContent.contentHash,
         }
       }
 
       // Generate new prompt
-      const prompt = this.generatePrompt(pageContent)
+      const prompt = this.generatePrompt(pageContent, template)
 
       // Cache the prompt
-      await this.cachePrompt(url, prompt)
+      await this.cachePrompt(url, prompt, pageContent.contentHash, template)
 
       return {
         success: true,
         prompt,
         cached: false,
+        contentHash: pageContent.contentHash,
       }
     } catch (error) {
       return {
@@ -228,11 +311,14 @@ Please analyze this page content and provide insights about:
   }
 
   /**
-   * Process page with AI and cache the response
+   * Process page with AI and cache the response. A cached response is only
+   * reused if it was generated with the same prompt template version.
+   * `aiFunction` receives the prompt and the page's content hash.
    */
   async processWithAI(
     url: string,
-    aiFunction: (prompt: string) => Promise<string>,
+    aiFunction: AIFunction,
+    template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE,
   ): Promise<{
     success: boolean
     response?: string
@@ -240,9 +326,10 @@ Please analyze this page content and provide insights about:
     error?: string
   }> {
     try {
-      // Check for cached response first
+      // Check for a cached response generated from the current content and template
       const cachedResponse = await this.getCachedResponse(url)
-      if (cachedResponse) {
+      const pageContent = cachedResponse ? await this.redisService.getPageContent(hashUrl(url)) : null
+      if (cachedResponse && this.isCurrent(cachedResponse, pageContent, template)) {
         return {
           success: true,
           response: cachedResponse.response,
@@ -251,7 +338,7 @@ Please analyze this page content and provide insights about:
       }
 
       // Process page to get prompt
-      const processResult = await this.processPage(url)
+      const processResult = await this.processPage(url, template)
       if (!processResult.success || !processResult.prompt) {
         return {
           success: false,
@@ -260,10 +347,13 @@ Please analyze this page content and provide insights about:
       }
 
       // Call AI function with prompt
-      const response = await aiFunction(processResult.prompt)
+      const output = await aiFunction(processResult.prompt, processResult.contentHash)
+      const response = typeof output === "string" ? output : output.response
 
-      // Cache the response
-      await this.cacheResponse(url, processResult.prompt, response)
+      // Cache the response, unless it was generated for a different prompt
+      if (typeof output === "string") {
+        await this.cacheResponse(url, processResult.prompt, response, processResult.contentHash, template)
+      }
 
       return {
         success: true,
@@ -283,7 +373,7 @@ Please analyze this page content and provide insights about:
    */
   async batchProcess(
     urls: string[],
-    aiFunction: (prompt: string) => Promise<string>,
+    aiFunction: AIFunction,
     options: { delayBetweenRequests?: number } = {},
   ): Promise<
     Array<{
@@ -348,16 +438,19 @@ Please analyze this page content and provide insights about:
   }
 
   /**
-   * Index page content into LangCache for semantic search.
+   * Index page content into LangCache for semantic search. The page is split
+   * into heading-aware chunks, each stored as its own entry whose prompt is the
+   * chunk text (so the whole page is searchable). Returns true when at least
+   * one entry was written.
    */
-  async indexPageContent(pageContent: PageContent): Promise<void> {
+  async indexPageContent(pageContent: PageContent): Promise<boolean> {
     try {
       const config = this.loadConfig()
       const langCache = await this.getLangCacheClient()
       const urlHash = hashUrl(pageContent.url)
       const domain = extractDomain(pageContent.url)
 
-      // Remove any existing entry for this URL before adding a new one
+      // Remove any existing entries (every chunk) for this URL before adding new ones
       if (config?.useAttributes) {
         await langCache
           .deleteQuery({
@@ -373,78 +466,128 @@ Please analyze this page content and provide insights about:
 
       const normalizedMarkdown = pageContent.markdown.trim()
       if (!normalizedMarkdown) {
-        return
+        return false
       }
 
-      const promptSource = pageContent.pageName || pageContent.url || "Untitled Page"
-      const normalizedPrompt = promptSource.trim()
-      if (!normalizedPrompt) {
-        return
+      const chunks = chunkPage(pageContent)
+      if (chunks.length === 0) {
+        return false
       }
 
+      const metadata = pageContent.metadata ? toSearchMetadata(pageContent.metadata) : undefined
+      const { language, pageType } = getFilterFields(pageContent)
       const maxPromptLength = 1024
-      const prompt =
-        normalizedPrompt.length > maxPromptLength
-          ? `${normalizedPrompt.slice(0, maxPromptLength - 1)}…`
-          : normalizedPrompt
+      let written = 0
+
+      for (const chunk of chunks) {
+        const promptSource = chunkSearchText(pageContent, chunk)
+        const prompt =
+          promptSource.length > maxPromptLength ? `${promptSource.slice(0, maxPromptLength - 1)}…` : promptSource
+
+        const responsePayload = {
+          url: pageContent.url,
+          pageName: pageContent.pageName,
+          markdownSnippet: chunk.content,
+          section: chunk.heading,
+          anchor: chunk.anchor,
+          chunkIndex: chunk.index,
+          chunkCount: chunks.length,
+          fetchedAt: pageContent.fetchedAt,
+          domain,
+          ...(metadata ? { metadata } : {}),
+        }
 
-      const responsePayload = {
-        url: pageContent.url,
-        pageName: pageContent.pageName,
-        markdownSnippet:
-          normalizedMarkdown.length > 2000 ? `${normalizedMarkdown.slice(0, 1997)}...` : normalizedMarkdown,
-        fetchedAt: pageContent.fetchedAt,
-        domain,
-      }
+        const setPayload = {
+          prompt,
+          response: JSON.stringify(responsePayload),
+        } as {
+          prompt: string
+          response: string
+          attributes?: Record<string, string>
+        }
 
-      const setPayload = {
-        prompt,
-        response: JSON.stringify(responsePayload),
-      } as {
-        prompt: string
-        response: string
-        attributes?: Record<string, string>
-      }
+        if (config?.useAttributes) {
+          setPayload.attributes = {
+            ...(pageContent.pageName ? { pageName: pageContent.pageName } : {}),
+            ...(pageContent.url ? { url: pageContent.url } : {}),
+            ...(domain ? { domain } : {}),
+            ...(chunk.heading ? { section: chunk.heading.slice(0, 200) } : {}),
+            ...(language ? { language } : {}),
+            ...(pageType ? { pageType } : {}),
+            type: "page",
+            urlHash,
+            chunkIndex: String(chunk.index),
+          }
+        }
 
-      if (config?.useAttributes && (pageContent.pageName || pageContent.url || domain)) {
-        setPayload.attributes = {
-          ...(pageContent.pageName ? { pageName: pageContent.pageName } : {}),
-          ...(pageContent.url ? { url: pageContent.url } : {}),
-          ...(domain ? { domain } : {}),
-          type: "page",
-          urlHash,
+        try {
+          await langCache.set(setPayload)
+          written++
+        } catch (error) {
+          if (this.handleConfigError(error)) return false
+          console.error(`[v0] LangCache indexing failed for chunk ${chunk.index} of ${pageContent.url}:`, error)
         }
       }
 
-      console.log("[v0] LangCache indexing payload:", {
-        promptLength: setPayload.prompt.length,
-        hasAttributes: Boolean(setPayload.attributes),
-        attributes: setPayload.attributes,
-        responsePreview: responsePayload.markdownSnippet.slice(0, 120),
-        promptPreview: setPayload.prompt.slice(0, 120),
-        responsePayload,
+      console.log("[v0] LangCache indexed page:", {
+        url: pageContent.url,
+        chunks: chunks.length,
+        written,
+        hasAttributes: Boolean(config?.useAttributes),
+        sections: chunks.map((chunk) => chunk.heading).filter(Boolean).slice(0, 10),
       })
 
-      await langCache.set(setPayload)
+      return written > 0
     } catch (error) {
-      if (this.handleConfigError(error)) return
+      if (this.handleConfigError(error)) return false
       console.error("[v0] LangCache indexing failed:", error)
+      return false
     }
   }
 
   /**
-   * Search indexed LangCache results.
+   * Remove a page's search entry from LangCache (requires attributes).
    */
-  async searchIndexedContent(query: string): Promise<LangCacheSearchResult[]> {
+  async removeIndexedPage(url: string, urlHash = hashUrl(url)): Promise<void> {
     try {
       const config = this.loadConfig()
+      if (!config?.useAttributes) return
+
       const langCache = await this.getLangCacheClient()
+      await langCache.deleteQuery({
+        attributes: {
+          type: "page",
+          urlHash,
+        },
+      })
+    } catch (error) {
+      if (this.handleConfigError(error)) return
+      console.error("[v0] LangCache delete failed:", error)
+    }
+  }
+
+  /**
+   * Search indexed LangCache results. Matching chunks are grouped back into one
+   * result per page, keeping the best-matching chunk's snippet and section.
+   *
+   * Domain, language and type filters become exact-match attributes; path
+   * prefix and date range (and all filters, without attributes) are applied
+   * to the returned entries.
+   */
+  async searchIndexedContent(query: string, filters: SearchFilters = {}): Promise<LangCacheSearchResult[]> {
+    try {
+      const config = this.loadConfig()
+      const langCache = await this.getLangCacheClient()
+      const language = normalizeLanguage(filters.language)
       const response = await langCache.search({
         prompt: query,
         ...(config?.useAttributes
           ? {
               attributes: {
                 type: "page",
+                ...(filters.domain ? { domain: filters.domain.replace(/^https?:\/\/(www\.)?/, "") } : {}),
+                ...(language ? { language } : {}),
+                ...(filters.type ? { pageType: filters.type.toLowerCase() } : {}),
               },
             }
           : {}),
@@ -463,13 +606,19 @@ Please analyze this page content and provide insights about:
           : null,
       })
 
-      return response.data.map((entry) => {
+      const matches = response.data.flatMap((entry) => {
         let parsed: {
+          type?: string
           url?: string
           pageName?: string
           markdown?: string
+          markdownSnippet?: string
           fetchedAt?: string
           domain?: string
+          metadata?: SearchResultMetadata
+          section?: string
+          anchor?: string
+          chunkIndex?: number
         } | null = null
 
         try {
@@ -478,23 +627,153 @@ Please analyze this page content and provide insights about:
           parsed = null
         }
 
+        // Cached answers and AI responses share the cache; without attributes they can match too
+        if (parsed?.type === "answer" || parsed?.type === "response") return []
+
         const content = parsed?.markdownSnippet ?? parsed?.markdown ?? entry.response
-        const snippet = content.length > 280 ? `${content.slice(0, 277)}...` : content
+        const snippet = buildSnippet(content, query)
+        const url = entry.attributes?.url || parsed?.url || ""
 
-        return {
+        const result: LangCacheSearchResult = {
           id: entry.id,
-          url: entry.attributes?.url || parsed?.url || "",
+          url,
           pageName: entry.attributes?.pageName || parsed?.pageName || "Untitled",
-          snippet,
+          snippet: snippet.text,
+          highlights: snippet.highlights,
+          content,
           similarity: entry.similarity,
           prompt: entry.prompt,
           fetchedAt: parsed?.fetchedAt,
+          metadata: parsed?.metadata,
+          section: parsed?.section || undefined,
+          anchor: parsed?.anchor || undefined,
+          chunkIndex: parsed?.chunkIndex,
         }
+
+        return [{ pageKey: entry.attributes?.urlHash || (url ? hashUrl(url) : entry.id), result }]
       })
+
+      return groupByPage(matches.filter(({ result }) => matchesSearchFilters(result, filters)))
     } catch (error) {
       if (this.handleConfigError(error)) return []
       console.error("[v0] LangCache search failed:", error)
       return []
     }
   }
+
+  /**
+   * Find the answer to a semantically similar question asked with the same
+   * filters. Answers are stored with `type: "answer"` so page entries never
+   * match; without attributes, page entries are skipped by their payload.
+   */
+  async findCachedAnswer(question: string, scope: string, similarityThreshold: number): Promise<CachedAnswer | null> {
+    try {
+      const config = this.loadConfig()
+      const langCache = await this.getLangCacheClient()
+      const response = await langCache.search({
+        prompt: question,
+        similarityThreshold,
+        ...(config?.useAttributes ? { attributes: { type: "answer", scope } } : {}),
+      })
+
+      for (const entry of response.data) {
+        let parsed: (CachedAnswer & { type?: string }) | null = null
+        try {
+          parsed = JSON.parse(entry.response)
+        } catch {
+          parsed = null
+        }
+
+        if (parsed?.type === "answer" && parsed.scope === scope) {
+          const { type: _type, ...answer } = parsed
+          return { ...answer, similarity: entry.similarity }
+        }
+      }
+
+      return null
+    } catch (error) {
+      if (this.handleConfigError(error)) return null
+      console.error("[v0] LangCache answer lookup failed:", error)
+      return null
+    }
+  }
+
+  /**
+   * Store a generated answer so similar questions are served from cache
+   */
+  async cacheAnswer(answer: CachedAnswer, ttlMillis?: number): Promise<void> {
+    try {
+      const config = this.loadConfig()
+      const langCache = await this.getLangCacheClient()
+      await langCache.set({
+        prompt: answer.question.slice(0, 1024),
+        response: JSON.stringify({ type: "answer", ...answer }),
+        ...(config?.useAttributes ? { attributes: { type: "answer", scope: answer.scope } } : {}),
+        ...(ttlMillis ? { ttlMillis } : {}),
+      })
+    } catch (error) {
+      if (this.handleConfigError(error)) return
+      console.error("[v0] LangCache answer caching failed:", error)
+    }
+  }
+
+  /**
+   * Find an AI response generated by `model` from `template` for a
+   * semantically equivalent prompt
+   */
+  async lookupResponse(
+    prompt: string,
+    model: string,
+    template: string,
+    similarityThreshold: number,
+  ): Promise<SemanticCacheMatch | null> {
+    try {
+      const config = this.loadConfig()
+      const langCache = await this.getLangCacheClient()
+      const response = await langCache.search({
+        prompt,
+        similarityThreshold,
+        ...(config?.useAttributes ? { attributes: { type: "response", model, template } } : {}),
+      })
+
+      for (const entry of response.data) {
+        let parsed: (SemanticCacheEntry & { type?: string }) | null = null
+        try {
+          parsed = JSON.parse(entry.response)
+        } catch {
+          parsed = null
+        }
+
+        if (parsed?.type === "response" && parsed.model === model && parsed.template === template) {
+          const { type: _type, ...cached } = parsed
+          return { ...cached, similarity: entry.similarity }
+        }
+      }
+
+      return null
+    } catch (error) {
+      if (this.handleConfigError(error)) return null
+      console.error("[v0] LangCache response lookup failed:", error)
+      return null
+    }
+  }
+
+  /**
+   * Store an AI response for semantic reuse
+   */
+  async storeResponse(entry: SemanticCacheEntry, ttlSeconds: number): Promise<void> {
+    try {
+      const config = this.loadConfig()
+      const langCache = await this.getLangCacheClient()
+      await langCache.set({
+        prompt: entry.prompt,
+        response: JSON.stringify({ type: "response", ...entry }),
+        ...(config?.useAttributes ? { attributes: { type: "response", model: entry.model, template: entry.template } } : {}),
+        ttlMillis: ttlSeconds * 1000,
+      })
+    } catch (error) {
+      if (this.handleConfigError(error)) return
+      console.error("[v0] LangCache response caching failed:", error)
+    }
+  }
 }
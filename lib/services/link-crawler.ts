@@ -0,0 +1,213 @@
+import { JSDOM } from "jsdom"
+import type { SitemapUrl } from "./sitemap-parser"
+import { hashUrl } from "@/lib/utils/hash"
+import { HostRateLimiter, getHost, mapWithConcurrency } from "@/lib/utils/rate-limiter"
+import { ROBOTS_USER_AGENT, checkRobots, matchesRobotsPattern } from "@/lib/utils/robots-parser"
+import { normalizeUrl } from "@/lib/utils/url-normalizer"
+
+export interface CrawlOptions {
+  maxDepth?: number // Link hops from the start page (start page is depth 0)
+  maxPages?: number // Max HTML pages discovered
+  include?: string[] // Path patterns to follow and index (robots.txt syntax: `*` wildcard, `$` anchor)
+  exclude?: string[] // Path patterns never fetched (checked before include)
+  concurrency?: number // Pages fetched in parallel
+  requestsPerSecond?: number
+  timeout?: number
+  respectRobots?: boolean // Honor robots.txt Disallow, Crawl-delay and meta robots (default: true)
+}
+
+export interface CrawlResult {
+  startUrl: string
+  urls: SitemapUrl[]
+  fetchedPages: number
+  maxDepthReached: number
+  errors: string[]
+}
+
+// Links to these are assets, not pages
+const NON_HTML_EXTENSIONS =
+  /\.(?:pdf|zip|gz|tgz|rar|7z|exe|dmg|pkg|deb|rpm|iso|jpe?g|png|gif|webp|avif|svg|ico|bmp|tiff?|mp3|mp4|m4a|wav|ogg|webm|mov|avi|css|js|mjs|json|xml|rss|atom|txt|csv|xlsx?|docx?|pptx?|woff2?|ttf|eot)$/i
+
+/**
+ * Breadth-first crawler for sites without a sitemap. Starting from one page,
+ * it follows same-site links level by level and reports every HTML page it
+ * reached as a SitemapUrl, so the results can be indexed like sitemap entries.
+ */
+export class LinkCrawler {
+  async crawl(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+    const {
+      maxDepth = 3,
+      maxPages = 100,
+      include = [],
+      exclude = [],
+      concurrency = 2,
+      requestsPerSecond = 1,
+      respectRobots = true,
+    } = options
+
+    const start = new URL(startUrl.startsWith("http") ? startUrl : `https://${startUrl}`)
+    const siteHost = new URL(normalizeUrl(start.toString())).hostname
+    const limiter = new HostRateLimiter({ requestsPerSecond, maxConcurrent: concurrency })
+
+    const result: CrawlResult = {
+      startUrl: start.toString(),
+      urls: [],
+      fetchedPages: 0,
+      maxDepthReached: 0,
+      errors: [],
+    }
+
+    const seen = new Set<string>([hashUrl(start.toString())])
+    let frontier = [start.toString()]
+
+    for (let depth = 0; depth <= maxDepth && frontier.length > 0; depth++) {
+      const nextFrontier: string[] = []
+      result.maxDepthReached = depth
+
+      await mapWithConcurrency(frontier, concurrency, async (url) => {
+        if (result.urls.length >= maxPages) return
+
+        if (respectRobots) {
+          const robots = await checkRobots(url)
+          if (!robots.allowed) return
+          if (robots.crawlDelay) limiter.setMinInterval(getHost(url), robots.crawlDelay * 1000)
+        }
+
+        const release = await limiter.acquire(getHost(url))
+        let page: FetchedPage | null
+        try {
+          page = await this.fetchPage(url, options)
+          result.fetchedPages++
+        } catch (error) {
+          result.errors.push(`Failed to crawl ${url}: ${error instanceof Error ? error.message : "Unknown error"}`)
+          return
+        } finally {
+          release()
+        }
+
+        // Redirected off-site, or not an HTML page
+        if (!page || !this.isSameSite(page.url, siteHost)) return
+
+        if (page.url !== url) {
+          const finalHash = hashUrl(page.url)
+          if (finalHash !== hashUrl(url) && seen.has(finalHash)) return
+          seen.add(finalHash)
+        }
+
+        const indexable = !(respectRobots && page.noindex) && this.matchesFilters(page.url, include, exclude)
+        if (indexable && result.urls.length < maxPages) {
+          result.urls.push({ loc: page.url, ...(page.lastModified ? { lastmod: page.lastModified } : {}) })
+        }
+
+        if (depth === maxDepth || (respectRobots && page.nofollow)) return
+
+        for (const link of page.links) {
+          if (!this.isSameSite(link, siteHost) || NON_HTML_EXTENSIONS.test(new URL(link).pathname)) continue
+          if (!this.matchesFilters(link, include, exclude)) continue
+
+          const linkHash = hashUrl(link)
+          if (seen.has(linkHash)) continue
+          seen.add(linkHash)
+          nextFrontier.push(link)
+        }
+      })
+
+      if (result.urls.length >= maxPages) break
+      frontier = nextFrontier
+    }
+
+    console.log(
+      `[v0] Crawl of ${result.startUrl} found ${result.urls.length} pages (${result.fetchedPages} fetched, depth ${result.maxDepthReached})`,
+    )
+
+    return result
+  }
+
+  /**
+   * Fetch a page and pull out its links. Returns null for non-HTML responses.
+   */
+  private async fetchPage(url: string, options: CrawlOptions): Promise<FetchedPage | null> {
+    const { timeout = 10000 } = options
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        headers: {
+          "User-Agent": `Mozilla/5.0 (compatible; ${ROBOTS_USER_AGENT})`,
+          Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      const contentType = response.headers.get("content-type") || ""
+      if (contentType && !/html/i.test(contentType)) return null
+
+      const finalUrl = response.url || url
+      const html = await response.text()
+      const document = new JSDOM(html, { url: finalUrl }).window.document
+
+      const robotsMeta = Array.from(document.querySelectorAll('meta[name="robots"], meta[name="googlebot"]'))
+        .map((el: Element) => (el.getAttribute("content") || "").toLowerCase())
+        .join(",")
+
+      const links = Array.from(document.querySelectorAll<HTMLAnchorElement>("a[href]"))
+        .filter((anchor: HTMLAnchorElement) => !/\bnofollow\b/i.test(anchor.getAttribute("rel") || ""))
+        .map((anchor: HTMLAnchorElement) => {
+          try {
+            const link = new URL(anchor.href)
+            link.hash = ""
+            return link.protocol === "http:" || link.protocol === "https:" ? link.toString() : null
+          } catch {
+            return null
+          }
+        })
+        .filter((link): link is string => link !== null)
+
+      const lastModified = response.headers.get("last-modified")
+      const lastModifiedDate = lastModified ? new Date(lastModified) : null
+
+      return {
+        url: finalUrl,
+        links: Array.from(new Set(links)),
+        noindex: /\b(noindex|none)\b/.test(robotsMeta),
+        nofollow: /\b(nofollow|none)\b/.test(robotsMeta),
+        lastModified:
+          lastModifiedDate && !Number.isNaN(lastModifiedDate.getTime()) ? lastModifiedDate.toISOString() : undefined,
+      }
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  private isSameSite(url: string, siteHost: string): boolean {
+    try {
+      return new URL(normalizeUrl(url)).hostname === siteHost
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Exclude patterns win; with include patterns, a path must match at least one
+   */
+  private matchesFilters(url: string, include: string[], exclude: string[]): boolean {
+    const urlObj = new URL(url)
+    const path = `${urlObj.pathname}${urlObj.search}`
+
+    if (exclude.some((pattern) => matchesRobotsPattern(pattern, path))) return false
+    return include.length === 0 || include.some((pattern) => matchesRobotsPattern(pattern, path))
+  }
+}
+
+interface FetchedPage {
+  url: string
+  links: string[]
+  noindex: boolean
+  nofollow: boolean
+  lastModified?: string
+}
@@ -1,9 +1,15 @@
 import TurndownService from "turndown"
 import { JSDOM } from "jsdom"
 import { RedisService } from "./redis-service"
-import { LangCacheService } from "./langcache-service"
-import type { PageContent } from "@/lib/redis"
-import { hashUrl } from "@/lib/utils/hash"
+import { SearchService } from "./search-service"
+import { DuplicateDetector, type DuplicateMatch } from "./duplicate-detector"
+import { getScraperStrategy, type HttpValidators, type ScrapeContext } from "./scraper-strategies"
+import type { DomainScraperConfig, PageContent, PageMetadata } from "@/lib/redis"
+import { extractMainContent, type ContentExtractionOptions } from "@/lib/utils/content-extractor"
+import { extractDomain, hashContent, hashUrl, simhashContent } from "@/lib/utils/hash"
+import { HostRateLimiter, getHost, interleaveByHost, mapWithConcurrency } from "@/lib/utils/rate-limiter"
+import { checkRobots } from "@/lib/utils/robots-parser"
+import { extractStructuredData } from "@/lib/utils/structured-data"
 
 export interface ScrapingOptions {
   timeout?: number
@@ -13,6 +19,15 @@ export interface ScrapingOptions {
   cleanHtml?: boolean
   useJinaReader?: boolean // Use Jina AI Reader API as primary method
   useBrowser?: boolean // Use headless browser for JS-heavy sites
+  concurrency?: number // Max pages scraped in parallel across all hosts
+  maxConcurrentPerHost?: number // Max in-flight requests to a single host
+  requestsPerSecondPerHost?: number // Token refill rate per host (defaults to 1000 / delayBetweenRequests)
+  burstPerHost?: number // Requests a host may receive back-to-back before the rate applies
+  respectRobots?: boolean // Skip URLs disallowed by robots.txt and honor Crawl-delay (default: true)
+  forceRefresh?: boolean // Re-fetch even if content is cached
+  strategies?: string[] // Scraper strategy names to try in order (overrides the domain config)
+  includeSelectors?: string[] // CSS selectors for the main content (overrides the domain config)
+  excludeSelectors?: string[] // CSS selectors always removed from the page (overrides the domain config)
 }
 
 export interface ScrapingResult {
@@ -22,17 +37,27 @@ export interface ScrapingResult {
   markdown?: string
   contentLength?: number
   error?: string
-  method?: "jina" | "browser" | "fetch" // Which method was used
+  method?: string // Name of the scraper strategy that produced the result
+  skipped?: boolean // Not fetched on purpose (see error for the reason)
+  contentHash?: string // Fingerprint of the markdown
+  unchanged?: boolean // Re-fetched content matches the previously stored version
+  notModified?: boolean // Server answered a conditional request with 304
+  etag?: string
+  lastModified?: string
+  metadata?: PageMetadata // Structured data, when the strategy had the page's HTML
+  duplicateOf?: string // Canonical URL; the page was consolidated under it instead of indexed
 }
 
 export class PageScraper {
   private redisService: RedisService
   private turndownService: TurndownService
-  private langCacheService: LangCacheService
+  private searchService: SearchService
+  private duplicateDetector: DuplicateDetector
 
   constructor() {
     this.redisService = new RedisService()
-    this.langCacheService = new LangCacheService()
+    this.searchService = new SearchService()
+    this.duplicateDetector = new DuplicateDetector()
     this.turndownService = new TurndownService({
       headingStyle: "atx",
       codeBlockStyle: "fenced",
@@ -81,233 +106,95 @@ export class PageScraper {
   }
 
   /**
-   * Scrape using Jina AI Reader API (bypasses most anti-bot protection)
+   * Fetch and scrape a single page, trying each strategy in order until one succeeds
    */
-  private async scrapeWithJina(url: string): Promise<ScrapingResult> {
-    try {
-      console.log("[v0] Attempting to scrape with Jina AI Reader:", url)
-
-      // Jina AI Reader converts any URL to markdown
-      const jinaUrl = `https://r.jina.ai/${encodeURIComponent(url)}`
+  async scrapePage(url: string, options: ScrapingOptions = {}): Promise<ScrapingResult> {
+    console.log("[v0] Starting scrape for:", url)
 
-      const response = await fetch(jinaUrl, {
-        headers: {
-          Accept: "text/markdown",
-          "X-Return-Format": "markdown",
-        },
-      })
+    const resolved = await this.applyDomainConfig(url, options)
+    const strategyNames = this.getStrategyOrder(resolved)
+    let lastResult: ScrapingResult | null = null
 
-      if (!response.ok) {
-        throw new Error(`Jina API returned ${response.status}`)
+    for (const name of strategyNames) {
+      const strategy = getScraperStrategy(name)
+      if (!strategy) {
+        console.warn("[v0] Unknown scraper strategy, skipping:", name)
+        continue
       }
 
-      const markdown = await response.text()
+      const result = await strategy.scrape(url, this.createContext(resolved))
+      if (result.success) {
+        return { ...result, method: result.method || strategy.name }
+      }
 
-      // Extract page name from first heading or use URL
-      const firstHeading = markdown.match(/^#\s+(.+)$/m)
-      const pageName = firstHeading ? firstHeading[1] : new URL(url).pathname.split("/").pop() || "Untitled"
+      lastResult = { ...result, method: result.method || strategy.name }
+      console.log(`[v0] Strategy "${name}" failed, trying next method...`)
+    }
 
-      console.log("[v0] Successfully scraped with Jina:", url)
+    console.error("[v0] All scraping methods failed for:", url)
 
-      return {
-        success: true,
-        url,
-        pageName,
-        markdown,
-        contentLength: markdown.length,
-        method: "jina",
-      }
-    } catch (error) {
-      console.error("[v0] Jina scraping failed:", error)
-      return {
+    return (
+      lastResult || {
         success: false,
         url,
         pageName: "Unknown",
-        error: `Jina scraping failed: ${(error as Error).message}`,
-        method: "jina",
+        error: "No scraper strategies available",
       }
-    }
+    )
   }
 
   /**
-   * Scrape using headless browser (Playwright) for JS-heavy sites
+   * Fill strategy order and content selectors from the domain's stored
+   * config. Values passed explicitly in `options` take precedence.
    */
-  private async scrapeWithBrowser(url: string, timeout = 30000): Promise<ScrapingResult> {
+  private async applyDomainConfig(url: string, options: ScrapingOptions): Promise<ScrapingOptions> {
+    let config: DomainScraperConfig | null = null
     try {
-      console.log("[v0] Attempting to scrape with headless browser:", url)
-
-      // Dynamic import of playwright
-      const { chromium } = await import("playwright")
-
-      const browser = await chromium.launch({
-        headless: true,
-      })
-
-      const context = await browser.newContext({
-        userAgent:
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        viewport: { width: 1920, height: 1080 },
-        locale: "en-US",
-      })
-
-      const page = await context.newPage()
-
-      // Navigate to page
-      await page.goto(url, {
-        waitUntil: "networkidle",
-        timeout,
-      })
-
-      // Wait for content to load
-      await page.waitForLoadState("domcontentloaded")
-
-      // Extract content
-      const content = await page.evaluate(() => {
-        const title = document.title
-        const main = document.querySelector("main") || document.querySelector("article") || document.body
-
-        // Remove unwanted elements
-        const unwanted = main?.querySelectorAll(
-          "script, style, noscript, iframe, nav, header, footer, .advertisement, .ads",
-        )
-        unwanted?.forEach((el) => el.remove())
-
-        return {
-          title,
-          html: main?.innerHTML || "",
-        }
-      })
-
-      await browser.close()
-
-      // Convert HTML to markdown
-      const markdown = this.turndownService.turndown(content.html)
-      const cleanMarkdown = markdown.replace(/\n{3,}/g, "\n\n").trim()
+      config = await this.redisService.getScraperConfig(extractDomain(url))
+    } catch (error) {
+      console.error("[v0] Failed to load scraper config, using defaults:", error)
+    }
 
-      console.log("[v0] Successfully scraped with browser:", url)
+    if (!config) return options
 
-      return {
-        success: true,
-        url,
-        pageName: content.title || "Untitled",
-        markdown: `# ${content.title}\n\n**URL:** ${url}\n\n${cleanMarkdown}`,
-        contentLength: cleanMarkdown.length,
-        method: "browser",
-      }
-    } catch (error) {
-      console.error("[v0] Browser scraping failed:", error)
-      return {
-        success: false,
-        url,
-        pageName: "Unknown",
-        error: `Browser scraping failed: ${(error as Error).message}`,
-        method: "browser",
-      }
+    return {
+      ...options,
+      strategies: options.strategies?.length ? options.strategies : config.strategies,
+      includeSelectors: options.includeSelectors ?? config.includeSelectors,
+      excludeSelectors: options.excludeSelectors ?? config.excludeSelectors,
     }
   }
 
   /**
-   * Fetch and scrape a single page with multiple strategies
+   * Resolve which strategies to try: the `strategies` option (or domain
+   * config), else the defaults implied by the useJinaReader / useBrowser flags.
    */
-  async scrapePage(url: string, options: ScrapingOptions = {}): Promise<ScrapingResult> {
+  private getStrategyOrder(options: ScrapingOptions): string[] {
+    if (options.strategies && options.strategies.length > 0) {
+      return options.strategies
+    }
+
     const {
-      timeout = 10000,
-      retries = 3,
-      cleanHtml = true,
-      includeMetadata = true,
       useJinaReader = true, // Default to Jina for best anti-bot protection
       useBrowser = false,
     } = options
 
-    console.log("[v0] Starting scrape for:", url)
-
-    // Strategy 1: Try Jina AI Reader first (best for anti-bot)
-    if (useJinaReader) {
-      const jinaResult = await this.scrapeWithJina(url)
-      if (jinaResult.success) {
-        return jinaResult
-      }
-      console.log("[v0] Jina failed, trying next method...")
-    }
-
-    // Strategy 2: Try headless browser if requested
-    if (useBrowser) {
-      const browserResult = await this.scrapeWithBrowser(url, timeout)
-      if (browserResult.success) {
-        return browserResult
-      }
-      console.log("[v0] Browser scraping failed, trying basic fetch...")
-    }
-
-    // Strategy 3: Fallback to basic fetch with better headers
-    let lastError: Error | null = null
-
-    for (let attempt = 0; attempt < retries; attempt++) {
-      try {
-        console.log(`[v0] Fetch attempt ${attempt + 1}/${retries} for:`, url)
-
-        const controller = new AbortController()
-        const timeoutId = setTimeout(() => controller.abort(), timeout)
-
-        const response = await fetch(url, {
-          signal: controller.signal,
-          headers: {
-            "User-Agent":
-              "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-            Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
-            "Accept-Language": "en-US,en;q=0.9",
-            "Accept-Encoding": "gzip, deflate, br",
-            Connection: "keep-alive",
-            "Upgrade-Insecure-Requests": "1",
-            "Sec-Fetch-Dest": "document",
-            "Sec-Fetch-Mode": "navigate",
-            "Sec-Fetch-Site": "none",
-            "Cache-Control": "max-age=0",
-          },
-        })
-
-        clearTimeout(timeoutId)
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-        }
-
-        const html = await response.text()
-
-        // Parse HTML and extract content
-        const { markdown, pageName } = this.htmlToMarkdown(html, url, { cleanHtml, includeMetadata })
-
-        console.log("[v0] Successfully scraped with fetch:", url)
-
-        return {
-          success: true,
-          url,
-          pageName,
-          markdown,
-          contentLength: markdown.length,
-          method: "fetch",
-        }
-      } catch (error) {
-        lastError = error as Error
-        console.error(`[v0] Fetch attempt ${attempt + 1} failed:`, lastError.message)
-
-        if (attempt < retries - 1) {
-          // Wait before retry (exponential backoff)
-          const delay = 1000 * Math.pow(2, attempt)
-          console.log(`[v0] Waiting ${delay}ms before retry...`)
-          await new Promise((resolve) => setTimeout(resolve, delay))
-        }
-      }
-    }
+    return [...(useJinaReader ? ["jina"] : []), ...(useBrowser ? ["browser"] : []), "fetch"]
+  }
 
-    console.error("[v0] All scraping methods failed for:", url)
+  /**
+   * Build the context passed to a scraper strategy
+   */
+  private createContext(options: ScrapingOptions, validators?: HttpValidators): ScrapeContext {
+    const { cleanHtml = true, includeMetadata = true, includeSelectors, excludeSelectors } = options
 
     return {
-      success: false,
-      url,
-      pageName: "Unknown",
-      error: lastError?.message || "All scraping methods failed",
-      method: "fetch",
+      options,
+      validators,
+      htmlToMarkdown: (html, url) =>
+        this.htmlToMarkdown(html, url, { cleanHtml, includeMetadata, includeSelectors, excludeSelectors }),
+      extractMetadata: (html, url) => extractStructuredData(new JSDOM(html).window.document, url),
+      turndown: (html) => this.turndownService.turndown(html),
     }
   }
 
@@ -317,9 +204,9 @@ export class PageScraper {
   private htmlToMarkdown(
     html: string,
     url: string,
-    options: { cleanHtml?: boolean; includeMetadata?: boolean } = {},
-  ): { markdown: string; pageName: string } {
-    const { cleanHtml = true, includeMetadata = true } = options
+    options: { cleanHtml?: boolean; includeMetadata?: boolean } & ContentExtractionOptions = {},
+  ): { markdown: string; pageName: string; metadata: PageMetadata } {
+    const { cleanHtml = true, includeMetadata = true, includeSelectors, excludeSelectors } = options
 
     // Parse HTML with JSDOM
     const dom = new JSDOM(html)
@@ -328,36 +215,19 @@ export class PageScraper {
     // Extract page title
     const pageName = document.querySelector("title")?.textContent?.trim() || "Untitled Page"
 
-    // Extract main content
-    const contentElement = document.querySelector("main") || document.querySelector("article") || document.body
-
-    if (cleanHtml) {
-      // Remove unwanted elements
-      const unwantedSelectors = [
-        "script",
-        "style",
-        "noscript",
-        "iframe",
-        "nav",
-        "header",
-        "footer",
-        ".advertisement",
-        ".ads",
-        "#cookie-banner",
-        ".cookie-notice",
-      ]
-
-      unwantedSelectors.forEach((selector) => {
-        contentElement?.querySelectorAll(selector).forEach((el) => el.remove())
-      })
-    }
+    // Structured data first; content extraction removes the <script> blocks holding JSON-LD
+    const metadata = extractStructuredData(document, url)
+
+    // Extract main content (scored extraction drops sidebars and boilerplate)
+    const contentElement = cleanHtml
+      ? extractMainContent(document, { includeSelectors, excludeSelectors })
+      : document.querySelector("main") || document.querySelector("article") || document.body
 
     // Convert to markdown
     let markdown = this.turndownService.turndown(contentElement?.innerHTML || "")
 
     // Add metadata if requested
     if (includeMetadata) {
-      const metadata = this.extractMetadata(document)
       const metadataSection = this.formatMetadata(pageName, url, metadata)
       markdown = `${metadataSection}\n\n${markdown}`
     }
@@ -367,37 +237,13 @@ export class PageScraper {
       .replace(/\n{3,}/g, "\n\n") // Max 2 consecutive newlines
       .trim()
 
-    return { markdown, pageName }
-  }
-
-  /**
-   * Extract metadata from HTML document
-   */
-  private extractMetadata(document: Document): Record<string, string> {
-    const metadata: Record<string, string> = {}
-
-    // Extract meta description
-    const description = document.querySelector('meta[name="description"]')?.getAttribute("content")
-    if (description) metadata.description = description
-
-    // Extract Open Graph data
-    const ogTitle = document.querySelector('meta[property="og:title"]')?.getAttribute("content")
-    if (ogTitle) metadata.ogTitle = ogTitle
-
-    const ogDescription = document.querySelector('meta[property="og:description"]')?.getAttribute("content")
-    if (ogDescription) metadata.ogDescription = ogDescription
-
-    // Extract keywords
-    const keywords = document.querySelector('meta[name="keywords"]')?.getAttribute("content")
-    if (keywords) metadata.keywords = keywords
-
-    return metadata
+    return { markdown, pageName, metadata }
   }
 
   /**
    * Format metadata as markdown
    */
-  private formatMetadata(pageName: string, url: string, metadata: Record<string, string>): string {
+  private formatMetadata(pageName: string, url: string, metadata: PageMetadata): string {
     let formatted = `# ${pageName}\n\n**URL:** ${url}\n`
 
     if (metadata.description) {
@@ -405,7 +251,7 @@ export class PageScraper {
     }
 
     if (metadata.keywords) {
-      formatted += `\n**Keywords:** ${metadata.keywords}\n`
+      formatted += `\n**Keywords:** ${metadata.keywords.join(", ")}\n`
     }
 
     return formatted
@@ -415,79 +261,292 @@ export class PageScraper {
    * Scrape and cache a page
    */
   async scrapeAndCache(url: string, options: ScrapingOptions = {}): Promise<ScrapingResult> {
+    const { respectRobots = true, forceRefresh = false } = options
     const urlHash = hashUrl(url)
 
+    // Never fetch pages the site owner disallows
+    if (respectRobots) {
+      const robots = await checkRobots(url)
+      if (!robots.allowed) {
+        console.log("[v0] Skipping URL disallowed by robots.txt:", url)
+        return {
+          success: false,
+          url,
+          pageName: "Unknown",
+          error: robots.reason,
+          // An unreachable robots.txt is a failure to retry, not a permanent skip
+          skipped: !robots.unreachable,
+        }
+      }
+    }
+
     // Check if content is already cached
-    const cached = await this.redisService.getPageContent(urlHash)
+    const previous = await this.redisService.getPageContent(urlHash)
+    const cached = forceRefresh ? null : previous
     if (cached) {
-      await this.langCacheService.indexPageContent(cached)
+      // Only index content versions the search index has not seen yet
+      if (!cached.duplicateOf && needsIndexing(cached)) {
+        await this.indexContent(urlHash, cached)
+      }
       return {
         success: true,
         url: cached.url,
         pageName: cached.pageName,
         markdown: cached.markdown,
         contentLength: cached.contentLength,
+        contentHash: cached.contentHash,
+        duplicateOf: cached.duplicateOf,
+      }
+    }
+
+    // Re-crawl: revalidate with the stored ETag / Last-Modified before a full scrape
+    let result: ScrapingResult | null = null
+    const fetchStrategy = getScraperStrategy("fetch")
+    if (previous && (previous.etag || previous.lastModified) && fetchStrategy) {
+      const resolved = await this.applyDomainConfig(url, options)
+      const revalidated = await fetchStrategy.scrape(
+        url,
+        this.createContext(resolved, { etag: previous.etag, lastModified: previous.lastModified }),
+      )
+
+      if (revalidated.notModified) {
+        // Unchanged: keep the stored content and just extend its TTL
+        const refreshed: PageContent = { ...previous, fetchedAt: new Date().toISOString() }
+        await this.redisService.storePageContent(urlHash, refreshed)
+
+        return {
+          success: true,
+          url,
+          pageName: previous.pageName,
+          markdown: previous.markdown,
+          contentLength: previous.contentLength,
+          method: "fetch",
+          contentHash: previous.contentHash,
+          unchanged: true,
+          notModified: true,
+          duplicateOf: previous.duplicateOf,
+        }
+      }
+
+      if (revalidated.success) {
+        result = revalidated
       }
     }
 
     // Scrape page
-    const result = await this.scrapePage(url, options)
+    if (!result) {
+      result = await this.scrapePage(url, options)
+    }
 
     // Cache successful results
     if (result.success && result.markdown) {
+      const contentHash = hashContent(result.markdown)
+      const unchanged = previous?.contentHash === contentHash
+
       const pageContent: PageContent = {
         url,
         pageName: result.pageName,
         markdown: result.markdown,
         fetchedAt: new Date().toISOString(),
         contentLength: result.contentLength || 0,
+        contentHash,
+        simhash: simhashContent(result.markdown),
+        ...(unchanged && previous?.indexedHash ? { indexedHash: previous.indexedHash } : {}),
+        ...(unchanged && previous?.keywordIndexedHash ? { keywordIndexedHash: previous.keywordIndexedHash } : {}),
+        ...(result.etag ? { etag: result.etag } : {}),
+        ...(result.lastModified ? { lastModified: result.lastModified } : {}),
+        ...(result.metadata ? { metadata: result.metadata } : {}),
       }
 
-      await this.redisService.storePageContent(urlHash, pageContent)
-      await this.langCacheService.indexPageContent(pageContent)
+      const duplicate = await this.duplicateDetector.findCanonical(urlHash, pageContent)
+
+      if (duplicate) {
+        // Consolidate under the canonical page instead of indexing a second copy
+        console.log(`[v0] ${url} duplicates ${duplicate.canonicalUrl} (${duplicate.reason})`)
+        pageContent.duplicateOf = duplicate.canonicalUrl
+        delete pageContent.indexedHash
+        delete pageContent.keywordIndexedHash
+        await this.redisService.storePageContent(urlHash, pageContent)
+        await this.redisService.markUrlDuplicate(urlHash, duplicate)
+        await this.duplicateDetector.forget(url, urlHash)
+        if (previous?.indexedHash || previous?.keywordIndexedHash) {
+          await this.searchService.removeIndexedPage(url)
+        }
+        if (duplicate.reason === "canonical") {
+          await this.adoptCanonical(duplicate, pageContent, urlHash)
+        }
+        result.duplicateOf = duplicate.canonicalUrl
+      } else {
+        await this.redisService.storePageContent(urlHash, pageContent)
+        if (previous?.duplicateOf) {
+          await this.redisService.markUrlDuplicate(urlHash, null)
+        }
+        await this.duplicateDetector.recordCanonical(urlHash, pageContent)
+
+        // Unchanged pages keep their existing search entries (and cached AI response).
+        // Pages indexed before the keyword index existed are added to it here.
+        if (needsIndexing(pageContent)) {
+          await this.indexContent(urlHash, pageContent)
+        } else {
+          console.log("[v0] Content unchanged since last fetch, skipping re-index:", url)
+        }
+      }
+
+      result.contentHash = contentHash
+      result.unchanged = unchanged
     }
 
     return result
   }
 
   /**
-   * Scrape multiple pages with rate limiting
+   * Make sure a declared canonical URL has a record. If the sitemap never
+   * listed it, the duplicate's content is stored and indexed under it. A
+   * tombstoned canonical is adopted again, so the content returns to search.
+   */
+  private async adoptCanonical(
+    duplicate: DuplicateMatch,
+    pageContent: PageContent,
+    duplicateHash: string,
+  ): Promise<void> {
+    const existing = await this.redisService.getUrlRecord(duplicate.canonicalHash)
+    if (existing && !existing.removedAt) return
+
+    const now = new Date().toISOString()
+    await this.redisService.indexUrl({
+      url: duplicate.canonicalUrl,
+      urlHash: duplicate.canonicalHash,
+      domain: extractDomain(duplicate.canonicalUrl),
+      pageName: pageContent.pageName,
+      indexed: now,
+      processed: true,
+      lastCrawled: now,
+      adoptedFrom: duplicateHash,
+    })
+
+    const canonicalContent: PageContent = {
+      ...pageContent,
+      url: duplicate.canonicalUrl,
+      markdown: pageContent.markdown.replace(`**URL:** ${pageContent.url}`, `**URL:** ${duplicate.canonicalUrl}`),
+    }
+    delete canonicalContent.duplicateOf
+    canonicalContent.contentHash = hashContent(canonicalContent.markdown)
+
+    await this.redisService.storePageContent(duplicate.canonicalHash, canonicalContent)
+    await this.duplicateDetector.recordCanonical(duplicate.canonicalHash, canonicalContent)
+    await this.indexContent(duplicate.canonicalHash, canonicalContent)
+  }
+
+  /**
+   * Index content into the indexes that have not seen this version yet, and
+   * remember which version each one holds
+   */
+  private async indexContent(urlHash: string, pageContent: PageContent): Promise<void> {
+    const { contentHash } = pageContent
+    const indexed = await this.searchService.indexPageContent(pageContent, {
+      semantic: !contentHash || pageContent.indexedHash !== contentHash,
+      keyword: !contentHash || pageContent.keywordIndexedHash !== contentHash,
+    })
+    if (!contentHash || !(indexed.semantic || indexed.keyword)) return
+
+    if (indexed.semantic) pageContent.indexedHash = contentHash
+    if (indexed.keyword) pageContent.keywordIndexedHash = contentHash
+    await this.redisService.storePageContent(urlHash, pageContent)
+  }
+
+  /**
+   * Scrape multiple pages concurrently with per-host rate limiting
    */
   async scrapeMultiple(
     urls: string[],
     options: ScrapingOptions = {},
-  ): Promise<{ results: ScrapingResult[]; summary: { success: number; failed: number } }> {
-    const { delayBetweenRequests = 1000 } = options
-    const results: ScrapingResult[] = []
+    onResult?: (result: ScrapingResult) => Promise<void>,
+  ): Promise<{ results: ScrapingResult[]; summary: { success: number; failed: number; skipped: number } }> {
+    const {
+      delayBetweenRequests = 1000,
+      concurrency = 4,
+      maxConcurrentPerHost = 1,
+      requestsPerSecondPerHost = delayBetweenRequests > 0 ? 1000 / delayBetweenRequests : Infinity,
+      burstPerHost = 1,
+      respectRobots = true,
+    } = options
+
+    const limiter = new HostRateLimiter({
+      requestsPerSecond: requestsPerSecondPerHost,
+      burst: burstPerHost,
+      maxConcurrent: maxConcurrentPerHost,
+    })
+
     let successCount = 0
     let failedCount = 0
+    let skippedCount = 0
 
-    for (const url of urls) {
-      const result = await this.scrapeAndCache(url, options)
-      results.push(result)
+    // Interleave hosts so parallel slots are spread across domains
+    const ordered = interleaveByHost(urls)
 
-      if (result.success) {
-        successCount++
-      } else {
-        failedCount++
+    const orderedResults = await mapWithConcurrency(ordered, concurrency, async (url) => {
+      const host = getHost(url)
+
+      // A robots.txt Crawl-delay overrides the configured rate for that host
+      if (respectRobots) {
+        const robots = await checkRobots(url)
+        if (robots.crawlDelay !== undefined) {
+          limiter.setMinInterval(host, robots.crawlDelay * 1000)
+        }
       }
 
-      // Mark URL as processed in Redis
-      const urlHash = hashUrl(url)
-      await this.redisService.markUrlProcessed(urlHash, result.success, result.error)
+      const release = await limiter.acquire(host)
+      let result: ScrapingResult
+      try {
+        result = await this.scrapeAndCache(url, options)
+      } catch (error) {
+        result = {
+          success: false,
+          url,
+          pageName: "Unknown",
+          error: error instanceof Error ? error.message : "Unknown error",
+        }
+      } finally {
+        release()
+      }
 
-      // Rate limiting delay
-      if (delayBetweenRequests > 0) {
-        await new Promise((resolve) => setTimeout(resolve, delayBetweenRequests))
+      // Mark URL as processed (or skipped) in Redis
+      const urlHash = hashUrl(url)
+      if (result.skipped) {
+        skippedCount++
+        await this.redisService.markUrlSkipped(urlHash, result.error || "Skipped")
+      } else {
+        if (result.success) {
+          successCount++
+        } else {
+          failedCount++
+        }
+        await this.redisService.markUrlProcessed(urlHash, result.success, result.error)
       }
-    }
+      await onResult?.(result)
+
+      return result
+    })
+
+    // Return results in the order the URLs were given
+    const resultsByUrl = new Map(ordered.map((url, index) => [url, orderedResults[index]]))
+    const results = urls.map((url) => resultsByUrl.get(url) as ScrapingResult)
 
     return {
       results,
       summary: {
         success: successCount,
         failed: failedCount,
+        skipped: skippedCount,
       },
     }
   }
 }
+
+/**
+ * Whether the search backend or the keyword index has not seen this content version
+ */
+function needsIndexing(pageContent: PageContent): boolean {
+  const { contentHash } = pageContent
+  return !contentHash || pageContent.indexedHash !== contentHash || pageContent.keywordIndexedHash !== contentHash
+}
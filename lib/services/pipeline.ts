@@ -1,7 +1,11 @@
+import crypto from "crypto"
 import { UrlIndexer } from "./url-indexer"
 import { PageScraper } from "./page-scraper"
 import { AIProcessor } from "./ai-processor"
 import { RedisService } from "./redis-service"
+import { SearchService } from "./search-service"
+import { hashUrl } from "@/lib/utils/hash"
+import type { PipelineRun } from "@/lib/redis"
 
 export interface PipelineOptions {
   maxUrls?: number
@@ -9,10 +13,13 @@ export interface PipelineOptions {
   aiDelay?: number
   aiModel?: string
   aiTemperature?: number
+  aiTemplateId?: string // Prompt template for AI processing (default: the domain's template)
+  aiTemplateVersion?: number
 }
 
 export interface PipelineResult {
   success: boolean
+  runId: string
   domain: string
   stages: {
     indexing: {
@@ -32,120 +39,313 @@ export interface PipelineResult {
       failed: number
     }
   }
+  changes?: {
+    newUrls: number
+    changedUrls: number
+    dueUrls: number
+    unchangedUrls: number
+    removedUrls: number
+    deferredUrls: number
+  }
   totalTime: number
   errors: string[]
 }
 
 /**
  * Complete processing pipeline: Index → Scrape → AI Process → Cache
+ *
+ * Each run is recorded under `run:{runId}` and every stage checkpoints the
+ * URLs it has completed, so a crashed or failed run can be resumed without
+ * re-fetching pages or re-generating responses.
+ *
+ * A "refresh" run replaces the indexing stage with an incremental sitemap
+ * diff and only re-crawls new, changed, or stale URLs.
  */
 export class ProcessingPipeline {
   private indexer: UrlIndexer
   private scraper: PageScraper
   private aiProcessor: AIProcessor
   private redisService: RedisService
+  private searchService: SearchService
 
   constructor() {
     this.indexer = new UrlIndexer()
     this.scraper = new PageScraper()
     this.aiProcessor = new AIProcessor()
     this.redisService = new RedisService()
+    this.searchService = new SearchService()
   }
 
   /**
    * Run complete pipeline for a sitemap
    */
-  async run(sitemapUrl: string, options: PipelineOptions = {}): Promise<PipelineResult> {
+  async run(
+    sitemapUrl: string,
+    options: PipelineOptions = {},
+    runId: string = crypto.randomUUID(),
+  ): Promise<PipelineResult> {
+    return await this.execute(this.createRun(runId, "full", sitemapUrl, options))
+  }
+
+  /**
+   * Incrementally refresh an indexed domain, re-crawling only what changed
+   */
+  async refresh(
+    domain: string,
+    options: PipelineOptions = {},
+    runId: string = crypto.randomUUID(),
+  ): Promise<PipelineResult> {
+    const run = this.createRun(runId, "refresh", "", options)
+    run.domain = domain
+    return await this.execute(run)
+  }
+
+  private createRun(
+    runId: string,
+    mode: PipelineRun["mode"],
+    sitemapUrl: string,
+    options: PipelineOptions,
+  ): PipelineRun {
+    const now = new Date().toISOString()
+    return {
+      runId,
+      mode,
+      sitemapUrl,
+      options,
+      urls: [],
+      stage: "indexing",
+      status: "running",
+      stages: {
+        indexing: { totalUrls: 0, indexedUrls: 0, skippedUrls: 0 },
+        scraping: { attempted: 0, successful: 0, failed: 0 },
+        aiProcessing: { attempted: 0, successful: 0, cached: 0, failed: 0 },
+      },
+      errors: [],
+      startedAt: now,
+      updatedAt: now,
+      totalTime: 0,
+    }
+  }
+
+  /**
+   * Resume a previous run, skipping stages and URLs that already completed
+   */
+  async resume(runId: string): Promise<PipelineResult> {
+    const run = await this.redisService.getPipelineRun(runId)
+    if (!run) {
+      throw new Error(`Pipeline run not found: ${runId}`)
+    }
+
+    if (run.status === "completed") {
+      return this.toResult(run)
+    }
+
+    console.log(`[v0] Resuming pipeline run ${runId} at stage:`, run.stage)
+    run.status = "running"
+    run.errors = []
+    return await this.execute(run)
+  }
+
+  /**
+   * Get stored state for a run
+   */
+  async getRun(runId: string): Promise<PipelineRun | null> {
+    return await this.redisService.getPipelineRun(runId)
+  }
+
+  private async execute(run: PipelineRun): Promise<PipelineResult> {
     const {
       maxUrls = 50,
       scrapeDelay = 1000,
       aiDelay = 2000,
       aiModel = "openai/gpt-4o-mini",
       aiTemperature = 0.7,
-    } = options
+      aiTemplateId,
+      aiTemplateVersion,
+    } = run.options
 
     const startTime = Date.now()
-    const errors: string[] = []
+    const previousTime = run.totalTime
 
     try {
+      await this.saveRun(run)
+
+      // Stage 1 (refresh): Diff sitemap against stored records
+      if (run.stage === "indexing" && run.mode === "refresh") {
+        console.log("[v0] Pipeline Stage 1: Refreshing sitemap incrementally...")
+        const refreshResult = await this.indexer.refreshDomain(run.domain as string, {
+          maxChangedUrls: maxUrls,
+        })
+
+        if (!refreshResult.success) {
+          run.errors.push(...refreshResult.errors)
+          throw new Error("Refresh failed")
+        }
+
+        // Re-crawled pages whose content hash turns out unchanged keep their
+        // search entries and cached AI response
+        const changedUrls = [...refreshResult.changedUrls, ...refreshResult.dueUrls]
+
+        // Pages that left the sitemap should no longer show up in search
+        for (const url of refreshResult.removedUrls) {
+          await this.searchService.removeIndexedPage(url)
+        }
+
+        run.sitemapUrl = refreshResult.sitemapUrl
+        run.urls = [...refreshResult.newUrls, ...changedUrls]
+        run.stages.indexing = {
+          totalUrls: refreshResult.totalUrls,
+          indexedUrls: refreshResult.newUrls.length,
+          skippedUrls: refreshResult.unchangedUrls,
+        }
+        run.changes = {
+          newUrls: refreshResult.newUrls.length,
+          changedUrls: refreshResult.changedUrls.length,
+          dueUrls: refreshResult.dueUrls.length,
+          unchangedUrls: refreshResult.unchangedUrls,
+          removedUrls: refreshResult.removedUrls.length,
+          deferredUrls: refreshResult.deferredUrls,
+        }
+        run.stage = "scraping"
+        await this.saveRun(run)
+      }
+
       // Stage 1: Index sitemap
-      console.log("[v0] Pipeline Stage 1: Indexing sitemap...")
-      const indexResult = await this.indexer.indexSitemap(sitemapUrl, {
-        maxUrls,
-        skipExisting: false,
-        batchSize: 20,
-      })
-
-      if (!indexResult.success) {
-        errors.push(...indexResult.errors)
-        throw new Error("Indexing failed")
+      if (run.stage === "indexing") {
+        console.log("[v0] Pipeline Stage 1: Indexing sitemap...")
+        const indexResult = await this.indexer.indexSitemap(run.sitemapUrl, {
+          maxUrls,
+          skipExisting: false,
+          batchSize: 20,
+        })
+
+        if (!indexResult.success) {
+          run.errors.push(...indexResult.errors)
+          throw new Error("Indexing failed")
+        }
+
+        const urlRecords = await this.redisService.getUrlsByDomain(indexResult.domain, maxUrls)
+
+        run.domain = indexResult.domain
+        run.urls = urlRecords.filter((record) => !record.skipReason).map((record) => record.url)
+        run.stages.indexing = {
+          totalUrls: indexResult.totalUrls,
+          indexedUrls: indexResult.indexedUrls,
+          skippedUrls: indexResult.skippedUrls,
+        }
+        run.stage = "scraping"
+        await this.saveRun(run)
       }
 
-      const domain = indexResult.domain
+      const domain = run.domain as string
 
       // Stage 2: Scrape pages
-      console.log("[v0] Pipeline Stage 2: Scraping pages...")
-      const urlRecords = await this.redisService.getUrlsByDomain(domain, maxUrls)
-      const urls = urlRecords.map((record) => record.url)
-
-      const scrapeResult = await this.scraper.scrapeMultiple(urls, {
-        timeout: 10000,
-        retries: 2,
-        delayBetweenRequests: scrapeDelay,
-        cleanHtml: true,
-        includeMetadata: true,
-      })
+      if (run.stage === "scraping") {
+        console.log("[v0] Pipeline Stage 2: Scraping pages...")
+        const completed = await this.redisService.getCheckpoints(run.runId, "scraping")
+        const remaining = run.urls.filter((url) => !completed.has(hashUrl(url)))
 
-      // Stage 3: AI Processing with caching
-      console.log("[v0] Pipeline Stage 3: AI processing with caching...")
-      const aiResult = await this.aiProcessor.processDomain(domain, {
-        model: aiModel,
-        temperature: aiTemperature,
-        maxTokens: 2000,
-        delayBetweenRequests: aiDelay,
-      })
-
-      const totalTime = Date.now() - startTime
-
-      return {
-        success: true,
-        domain,
-        stages: {
-          indexing: {
-            totalUrls: indexResult.totalUrls,
-            indexedUrls: indexResult.indexedUrls,
-            skippedUrls: indexResult.skippedUrls,
+        if (completed.size > 0) {
+          console.log(`[v0] Skipping ${completed.size} already scraped URL(s)`)
+        }
+
+        await this.scraper.scrapeMultiple(
+          remaining,
+          {
+            timeout: 10000,
+            retries: 2,
+            delayBetweenRequests: scrapeDelay,
+            cleanHtml: true,
+            includeMetadata: true,
+            forceRefresh: run.mode === "refresh",
           },
-          scraping: {
-            attempted: urls.length,
-            successful: scrapeResult.summary.success,
-            failed: scrapeResult.summary.failed,
+          async (result) => {
+            if (result.success) {
+              await this.redisService.addCheckpoint(run.runId, "scraping", hashUrl(result.url))
+            }
           },
-          aiProcessing: {
-            attempted: aiResult.summary.total,
-            successful: aiResult.summary.successful,
-            cached: aiResult.summary.cached,
-            failed: aiResult.summary.failed,
+        )
+
+        const successful = (await this.redisService.getCheckpoints(run.runId, "scraping")).size
+        run.stages.scraping = {
+          attempted: run.urls.length,
+          successful,
+          failed: run.urls.length - successful,
+        }
+        run.stage = "aiProcessing"
+        await this.saveRun(run)
+      }
+
+      // Stage 3: AI Processing with caching
+      if (run.stage === "aiProcessing") {
+        console.log("[v0] Pipeline Stage 3: AI processing with caching...")
+        const completed = await this.redisService.getCheckpoints(run.runId, "aiProcessing")
+
+        const aiResult = await this.aiProcessor.processDomain(
+          domain,
+          {
+            model: aiModel,
+            temperature: aiTemperature,
+            maxTokens: 2000,
+            delayBetweenRequests: aiDelay,
+            templateId: aiTemplateId,
+            templateVersion: aiTemplateVersion,
+          },
+          {
+            skipUrlHashes: completed,
+            onResult: async (result) => {
+              if (result.success) {
+                await this.redisService.addCheckpoint(run.runId, "aiProcessing", hashUrl(result.url))
+              }
+            },
           },
-        },
-        totalTime,
-        errors,
+        )
+
+        const attempted = completed.size + aiResult.summary.total
+        const successful = (await this.redisService.getCheckpoints(run.runId, "aiProcessing")).size
+        run.stages.aiProcessing = {
+          attempted,
+          successful,
+          cached: run.stages.aiProcessing.cached + aiResult.summary.cached,
+          failed: attempted - successful,
+        }
+        run.stage = "done"
       }
+
+      run.status = "completed"
+      run.totalTime = previousTime + (Date.now() - startTime)
+      await this.saveRun(run)
+
+      return this.toResult(run)
     } catch (error) {
-      const totalTime = Date.now() - startTime
-      errors.push(error instanceof Error ? error.message : "Unknown error")
-
-      return {
-        success: false,
-        domain: "",
-        stages: {
-          indexing: { totalUrls: 0, indexedUrls: 0, skippedUrls: 0 },
-          scraping: { attempted: 0, successful: 0, failed: 0 },
-          aiProcessing: { attempted: 0, successful: 0, cached: 0, failed: 0 },
-        },
-        totalTime,
-        errors,
+      run.errors.push(error instanceof Error ? error.message : "Unknown error")
+      run.status = "failed"
+      run.totalTime = previousTime + (Date.now() - startTime)
+
+      try {
+        await this.saveRun(run)
+      } catch (saveError) {
+        console.error("[v0] Failed to save pipeline run state:", saveError)
       }
+
+      return this.toResult(run)
+    }
+  }
+
+  private async saveRun(run: PipelineRun): Promise<void> {
+    run.updatedAt = new Date().toISOString()
+    await this.redisService.storePipelineRun(run)
+  }
+
+  private toResult(run: PipelineRun): PipelineResult {
+    return {
+      success: run.status === "completed",
+      runId: run.runId,
+      domain: run.domain || "",
+      stages: run.stages,
+      ...(run.changes ? { changes: run.changes } : {}),
+      totalTime: run.totalTime,
+      errors: run.errors,
     }
   }
 }
@@ -0,0 +1,227 @@
+import { RedisService } from "./redis-service"
+import type { PromptTemplate } from "@/lib/redis"
+import { getUnknownVariables, TEMPLATE_VARIABLES } from "@/lib/utils/prompt-template"
+
+export const DEFAULT_TEMPLATE_ID = "default"
+
+const ANALYSIS_QUESTIONS = `Please analyze this page content and provide insights about:
+1. Main topics and themes
+2. Key information and takeaways
+3. Content structure and organization
+4. Potential use cases or applications`
+
+// Built-in versions of DEFAULT_TEMPLATE_ID, oldest first. Version 1 is the
+// prompt used before templates existed, so responses cached without a
+// template version are attributed to it.
+const BUILT_IN_DEFAULT_VERSIONS: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    version: 1,
+    name: "Page Analysis",
+    template: `Page Analysis Request
+
+Page Name: {{pageName}}
+
+Page Data:
+{{pageData}}
+
+${ANALYSIS_QUESTIONS}`,
+  },
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    version: 2,
+    name: "Page Analysis",
+    description: "Page content as plain markdown instead of a JSON string",
+    template: `Page Analysis Request
+
+Page Name: {{pageName}}
+URL: {{url}}
+
+Page Content:
+{{content}}
+
+${ANALYSIS_QUESTIONS}`,
+  },
+]
+
+// Used until a template is saved under DEFAULT_TEMPLATE_ID
+export const DEFAULT_PROMPT_TEMPLATE = BUILT_IN_DEFAULT_VERSIONS[BUILT_IN_DEFAULT_VERSIONS.length - 1]
+
+// Version that cache entries without a template version were rendered from
+export const LEGACY_TEMPLATE_VERSION = BUILT_IN_DEFAULT_VERSIONS[0].version
+
+// Template IDs appear in Redis keys and URLs
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+// Taken by the /api/templates/domains routes
+const RESERVED_TEMPLATE_IDS = ["domains"]
+
+export interface PromptTemplateInput {
+  id: string
+  name?: string
+  description?: string
+  template: string
+}
+
+// Template chosen for a run; overrides the domain's template
+export interface PromptTemplateSelection {
+  templateId?: string
+  templateVersion?: number // Latest when omitted
+}
+
+/**
+ * Identifies a template version in cache entries, e.g. "default@1"
+ */
+export function getTemplateKey(template: PromptTemplate): string {
+  return `${template.id}@${template.version}`
+}
+
+/**
+ * Named, versioned prompt templates stored in Redis. Saving a template adds a
+ * version instead of overwriting, so cached responses keep pointing at the
+ * exact text they were generated from.
+ */
+export class PromptTemplateService {
+  private redisService: RedisService
+
+  constructor() {
+    this.redisService = new RedisService()
+  }
+
+  /**
+   * Validate a template before saving; returns an error message or null
+   */
+  static validate(input: Partial<PromptTemplateInput>): string | null {
+    if (!input.id || typeof input.id !== "string") return "Template id is required"
+    if (!TEMPLATE_ID_PATTERN.test(input.id) || RESERVED_TEMPLATE_IDS.includes(input.id)) {
+      return "Template id must be lowercase letters, digits, '-' or '_' (at most 64 characters)"
+    }
+    if (!input.template || typeof input.template !== "string" || !input.template.trim()) {
+      return "Template text is required"
+    }
+
+    const unknown = getUnknownVariables(input.template)
+    if (unknown.length > 0) {
+      return `Unknown template variables: ${unknown.join(", ")} (use ${TEMPLATE_VARIABLES.join(", ")} or metadata.*)`
+    }
+
+    return null
+  }
+
+  /**
+   * Read a request's `templateId` and `templateVersion`. Returns an error
+   * message when they are malformed or name a template that does not exist.
+   */
+  async parseSelection(templateId: unknown, templateVersion: unknown): Promise<PromptTemplateSelection | string> {
+    if (templateId === undefined || templateId === null || templateId === "") {
+      return templateVersion === undefined ? {} : "templateVersion requires templateId"
+    }
+    if (typeof templateId !== "string") return "templateId must be a string"
+
+    const version = templateVersion === undefined ? undefined : Number(templateVersion)
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      return "templateVersion must be a positive integer"
+    }
+
+    const template = await this.getTemplate(templateId, version)
+    if (!template) {
+      return `Prompt template not found: ${version === undefined ? templateId : `${templateId}@${version}`}`
+    }
+
+    return { templateId, templateVersion: version }
+  }
+
+  /**
+   * Latest version of every template, including the built-in default
+   */
+  async listTemplates(): Promise<PromptTemplate[]> {
+    const templates = await this.redisService.getPromptTemplates()
+    if (templates.some((template) => template.id === DEFAULT_TEMPLATE_ID)) {
+      return templates
+    }
+    return [DEFAULT_PROMPT_TEMPLATE, ...templates]
+  }
+
+  /**
+   * One version of a template, or its latest version
+   */
+  async getTemplate(templateId: string, version?: number): Promise<PromptTemplate | null> {
+    const template = await this.redisService.getPromptTemplate(templateId, version)
+    if (template || templateId !== DEFAULT_TEMPLATE_ID) return template
+
+    if (version === undefined) return DEFAULT_PROMPT_TEMPLATE
+    return BUILT_IN_DEFAULT_VERSIONS.find((builtIn) => builtIn.version === version) ?? null
+  }
+
+  /**
+   * Every version of a template, oldest first
+   */
+  async getTemplateVersions(templateId: string): Promise<PromptTemplate[]> {
+    const versions = await this.redisService.getPromptTemplateVersions(templateId)
+    return templateId === DEFAULT_TEMPLATE_ID ? [...BUILT_IN_DEFAULT_VERSIONS, ...versions] : versions
+  }
+
+  /**
+   * Save a template as the next version of its ID. Versions of a deleted
+   * template are not reused.
+   */
+  async saveTemplate(input: PromptTemplateInput): Promise<PromptTemplate> {
+    const latest = await this.getTemplate(input.id)
+    const template: PromptTemplate = {
+      id: input.id,
+      version: await this.redisService.reservePromptTemplateVersion(input.id, (latest?.version ?? 0) + 1),
+      ...(input.name ? { name: input.name } : {}),
+      ...(input.description ? { description: input.description } : {}),
+      template: input.template,
+      createdAt: new Date().toISOString(),
+    }
+
+    if (!(await this.redisService.storePromptTemplate(template))) {
+      throw new Error(`Failed to save prompt template ${getTemplateKey(template)}: version already exists`)
+    }
+
+    console.log("[v0] Saved prompt template:", getTemplateKey(template))
+    return template
+  }
+
+  /**
+   * Delete all stored versions of a template. Returns false if none were stored.
+   * Domains still selecting it fall back to the default template. Its version
+   * numbers stay issued, so saving the id again starts after them.
+   */
+  async deleteTemplate(templateId: string): Promise<boolean> {
+    const versions = await this.redisService.getPromptTemplateVersions(templateId)
+    if (versions.length === 0) return false
+
+    await this.redisService.deletePromptTemplate(templateId)
+    return true
+  }
+
+  /**
+   * The template to render prompts for a domain with: the run's selection,
+   * else the domain's selection, else the latest default template
+   */
+  async resolveTemplate(domain: string, selection: PromptTemplateSelection = {}): Promise<PromptTemplate> {
+    if (selection.templateId) {
+      const template = await this.getTemplate(selection.templateId, selection.templateVersion)
+      if (!template) {
+        throw new Error(`Prompt template not found: ${selection.templateId}`)
+      }
+      return template
+    }
+
+    const domainSelection = await this.redisService.getDomainPromptTemplate(domain)
+    if (domainSelection) {
+      const template = await this.getTemplate(domainSelection.templateId, domainSelection.version)
+      if (template) return template
+
+      console.warn("[v0] Prompt template selected for domain not found, using the default:", {
+        domain,
+        templateId: domainSelection.templateId,
+        version: domainSelection.version,
+      })
+    }
+
+    return (await this.getTemplate(DEFAULT_TEMPLATE_ID)) ?? DEFAULT_PROMPT_TEMPLATE
+  }
+}
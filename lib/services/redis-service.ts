@@ -7,8 +7,37 @@ import {
   type ProcessingStatus,
   type PromptCacheEntry,
   type ResponseCacheEntry,
+  type PipelineJob,
+  type PipelineRun,
+  type PipelineStage,
+  type CrawlSchedule,
+  type DomainScraperConfig,
+  type PromptTemplate,
+  type DomainPromptTemplate,
+  type VectorChunk,
+  type VectorIndexModel,
+  type SearchDocument,
+  type SemanticCacheEntry,
+  type SemanticCacheStats,
 } from "@/lib/redis"
-import type { RedisClientType } from "redis"
+import {
+  FT_AGGREGATE_GROUP_BY_REDUCERS,
+  FT_AGGREGATE_STEPS,
+  SCHEMA_FIELD_TYPE,
+  SCHEMA_VECTOR_FIELD_ALGORITHM,
+  type RediSearchSchema,
+  type RedisClientType,
+} from "redis"
+import type { SearchFilters } from "@/lib/services/search-backend"
+import { normalizeLanguage } from "@/lib/utils/search-chunks"
+
+// Filterable fields shared by the vector and keyword indexes
+const FILTER_SCHEMA: RediSearchSchema = {
+  path: SCHEMA_FIELD_TYPE.TAG,
+  language: SCHEMA_FIELD_TYPE.TAG,
+  pageType: SCHEMA_FIELD_TYPE.TAG,
+  fetchedAtMs: SCHEMA_FIELD_TYPE.NUMERIC,
+}
 
 export class RedisService {
   private redis: RedisClientType | null = null
@@ -72,6 +101,14 @@ export class RedisService {
     })
   }
 
+  /**
+   * Overwrite an existing URL record without changing its position in the domain list
+   */
+  async updateUrlRecord(urlRecord: UrlRecord): Promise<void> {
+    const client = await this.getClient()
+    await client.set(RedisKeys.url(urlRecord.urlHash), JSON.stringify(urlRecord))
+  }
+
   /**
    * Get URL record by hash
    */
@@ -131,10 +168,501 @@ export class RedisService {
 
     urlRecord.processed = success
     if (error) urlRecord.error = error
+    if (success) urlRecord.lastCrawled = new Date().toISOString()
 
     await client.set(RedisKeys.url(urlHash), JSON.stringify(urlRecord))
   }
 
+  /**
+   * Mark a URL as skipped, recording why it was not fetched
+   */
+  async markUrlSkipped(urlHash: string, reason: string): Promise<void> {
+    const client = await this.getClient()
+    const urlRecord = await this.getUrlRecord(urlHash)
+    if (!urlRecord) return
+
+    urlRecord.processed = false
+    urlRecord.skipReason = reason
+
+    await client.set(RedisKeys.url(urlHash), JSON.stringify(urlRecord))
+  }
+
+  /**
+   * Mark a URL as a duplicate of a canonical record, or clear the mark when `duplicate` is null
+   */
+  async markUrlDuplicate(
+    urlHash: string,
+    duplicate: { canonicalUrl: string; canonicalHash: string; reason: "canonical" | "near-duplicate" } | null,
+  ): Promise<void> {
+    const urlRecord = await this.getUrlRecord(urlHash)
+    if (!urlRecord) return
+
+    if (duplicate) {
+      urlRecord.canonicalUrl = duplicate.canonicalUrl
+      urlRecord.duplicateOf = duplicate.canonicalHash
+      urlRecord.duplicateReason = duplicate.reason
+    } else {
+      delete urlRecord.canonicalUrl
+      delete urlRecord.duplicateOf
+      delete urlRecord.duplicateReason
+    }
+
+    await this.updateUrlRecord(urlRecord)
+  }
+
+  /**
+   * Store the content fingerprint of a canonical page
+   */
+  async storeFingerprint(domain: string, urlHash: string, simhash: string): Promise<void> {
+    const client = await this.getClient()
+    await client.hSet(RedisKeys.fingerprints(domain), urlHash, simhash)
+  }
+
+  /**
+   * Get all canonical page fingerprints for a domain, keyed by urlHash
+   */
+  async getFingerprints(domain: string): Promise<Record<string, string>> {
+    const client = await this.getClient()
+    return await client.hGetAll(RedisKeys.fingerprints(domain))
+  }
+
+  async removeFingerprint(domain: string, urlHash: string): Promise<void> {
+    const client = await this.getClient()
+    await client.hDel(RedisKeys.fingerprints(domain), urlHash)
+  }
+
+  /**
+   * Create the chunk vector index unless it exists, and return the embedding
+   * model it was built with. An index from before models were recorded is
+   * assumed to use `embeddingModel` if its vector field has `dimensions`;
+   * otherwise its model is reported as "unknown" and nothing is recorded.
+   */
+  async ensureVectorIndex(dimensions: number, embeddingModel: string): Promise<VectorIndexModel> {
+    const client = await this.getClient()
+    const created = await this.ensureSearchIndex(RedisKeys.vectorIndex(), "chunk:", {
+      urlHash: SCHEMA_FIELD_TYPE.TAG,
+      domain: SCHEMA_FIELD_TYPE.TAG,
+      chunkIndex: SCHEMA_FIELD_TYPE.NUMERIC,
+      pageName: SCHEMA_FIELD_TYPE.TEXT,
+      section: SCHEMA_FIELD_TYPE.TEXT,
+      content: SCHEMA_FIELD_TYPE.TEXT,
+      embeddingModel: SCHEMA_FIELD_TYPE.TAG,
+      ...FILTER_SCHEMA,
+      embedding: {
+        type: SCHEMA_FIELD_TYPE.VECTOR,
+        ALGORITHM: SCHEMA_VECTOR_FIELD_ALGORITHM.HNSW,
+        TYPE: "FLOAT32",
+        DIM: dimensions,
+        DISTANCE_METRIC: "COSINE",
+      },
+    })
+
+    const stored = created ? null : await client.get(RedisKeys.vectorIndexModel())
+    if (stored) {
+      return JSON.parse(stored) as VectorIndexModel
+    }
+
+    if (!created) {
+      const indexDimensions = await this.getVectorDimensions(RedisKeys.vectorIndex(), "embedding")
+      if (indexDimensions !== null && indexDimensions !== dimensions) {
+        return { model: "unknown", dimensions: indexDimensions, createdAt: new Date().toISOString() }
+      }
+    }
+
+    const indexModel: VectorIndexModel = { model: embeddingModel, dimensions, createdAt: new Date().toISOString() }
+    await client.set(RedisKeys.vectorIndexModel(), JSON.stringify(indexModel))
+    return indexModel
+  }
+
+  /**
+   * DIM of a vector field as reported by FT.INFO, or null if not found
+   */
+  private async getVectorDimensions(index: string, field: string): Promise<number | null> {
+    const client = await this.getClient()
+    const info = await client.ft.info(index)
+
+    for (const attribute of info.attributes as Array<Record<string, unknown>>) {
+      if (String(attribute.attribute) !== field) continue
+      const dim = attribute.dim ?? attribute.DIM
+      return dim === undefined ? null : Number(dim)
+    }
+    return null
+  }
+
+  /**
+   * Store an embedded chunk; the vector index picks it up automatically
+   */
+  async storeVectorChunk(chunk: VectorChunk): Promise<void> {
+    const client = await this.getClient()
+    await client.hSet(RedisKeys.vectorChunk(chunk.urlHash, chunk.chunkIndex), {
+      urlHash: chunk.urlHash,
+      url: chunk.url,
+      domain: chunk.domain,
+      pageName: chunk.pageName,
+      chunkIndex: chunk.chunkIndex,
+      section: chunk.section,
+      anchor: chunk.anchor,
+      content: chunk.content,
+      fetchedAt: chunk.fetchedAt,
+      ...(chunk.metadata ? { metadata: JSON.stringify(chunk.metadata) } : {}),
+      ...filterFields(chunk),
+      embeddingModel: chunk.embeddingModel,
+      embedding: Buffer.from(new Float32Array(chunk.embedding).buffer),
+    })
+  }
+
+  /**
+   * K nearest chunks to `embedding`, closest first. `distance` is the cosine distance (0 to 2).
+   */
+  async searchVectorChunks(
+    embedding: number[],
+    k: number,
+    filters: SearchFilters = {},
+  ): Promise<Array<{ chunk: Omit<VectorChunk, "embedding">; distance: number }>> {
+    const client = await this.getClient()
+    const prefilter = toFilterQuery(filters) || "*"
+    const reply = await client.ft.search(RedisKeys.vectorIndex(), `(${prefilter})=>[KNN ${k} @embedding $vector AS distance]`, {
+      PARAMS: { vector: Buffer.from(new Float32Array(embedding).buffer) },
+      SORTBY: "distance",
+      RETURN: [
+        "urlHash",
+        "url",
+        "domain",
+        "pageName",
+        "chunkIndex",
+        "section",
+        "anchor",
+        "content",
+        "fetchedAt",
+        "metadata",
+        "path",
+        "language",
+        "pageType",
+        "embeddingModel",
+        "distance",
+      ],
+      LIMIT: { from: 0, size: k },
+      DIALECT: 2,
+    })
+
+    return reply.documents.map(({ value }) => {
+      const fields = value as Record<string, string | undefined>
+      return {
+        chunk: {
+          urlHash: fields.urlHash || "",
+          url: fields.url || "",
+          domain: fields.domain || "",
+          pageName: fields.pageName || "",
+          chunkIndex: Number(fields.chunkIndex || 0),
+          section: fields.section || "",
+          anchor: fields.anchor || "",
+          content: fields.content || "",
+          fetchedAt: fields.fetchedAt || "",
+          ...(fields.metadata ? { metadata: JSON.parse(fields.metadata) } : {}),
+          path: fields.path || "/",
+          language: fields.language || undefined,
+          pageType: fields.pageType || undefined,
+          embeddingModel: fields.embeddingModel || "",
+        },
+        distance: Number(fields.distance),
+      }
+    })
+  }
+
+  /**
+   * Delete every chunk of a page from the vector index
+   */
+  async deleteVectorChunks(urlHash: string): Promise<void> {
+    await this.deleteIndexedKeys(RedisKeys.vectorIndex(), `@urlHash:{${escapeTag(urlHash)}}`)
+  }
+
+  /**
+   * Create the semantic response cache index unless it exists
+   */
+  async ensureSemanticCacheIndex(dimensions: number): Promise<void> {
+    await this.ensureSearchIndex(RedisKeys.semanticCacheIndex(), "semcache:", {
+      model: SCHEMA_FIELD_TYPE.TAG,
+      template: SCHEMA_FIELD_TYPE.TAG,
+      embeddingModel: SCHEMA_FIELD_TYPE.TAG,
+      embedding: {
+        type: SCHEMA_FIELD_TYPE.VECTOR,
+        ALGORITHM: SCHEMA_VECTOR_FIELD_ALGORITHM.HNSW,
+        TYPE: "FLOAT32",
+        DIM: dimensions,
+        DISTANCE_METRIC: "COSINE",
+      },
+    })
+  }
+
+  /**
+   * Store an embedded prompt and its response; the entry expires after `ttlSeconds`
+   */
+  async storeSemanticCacheEntry(
+    id: string,
+    entry: SemanticCacheEntry,
+    embedding: number[],
+    embeddingModel: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    const client = await this.getClient()
+    const key = RedisKeys.semanticCacheEntry(id)
+    await client.hSet(key, {
+      prompt: entry.prompt,
+      promptSimhash: entry.promptSimhash,
+      url: entry.url,
+      ...(entry.contentHash ? { contentHash: entry.contentHash } : {}),
+      response: entry.response,
+      model: entry.model,
+      template: entry.template,
+      tokens: entry.tokens,
+      createdAt: entry.createdAt,
+      embeddingModel,
+      embedding: Buffer.from(new Float32Array(embedding).buffer),
+    })
+    await client.expire(key, ttlSeconds)
+  }
+
+  /**
+   * Nearest cached prompt for `model` and `template` embedded with
+   * `embeddingModel`, with its cosine distance (0 to 2)
+   */
+  async searchSemanticCache(
+    embedding: number[],
+    model: string,
+    template: string,
+    embeddingModel: string,
+  ): Promise<{ entry: SemanticCacheEntry; distance: number } | null> {
+    const client = await this.getClient()
+    const prefilter = [
+      `@model:{${escapeTag(model)}}`,
+      `@template:{${escapeTag(template)}}`,
+      `@embeddingModel:{${escapeTag(embeddingModel)}}`,
+    ].join(" ")
+    const reply = await client.ft.search(RedisKeys.semanticCacheIndex(), `(${prefilter})=>[KNN 1 @embedding $vector AS distance]`, {
+      PARAMS: { vector: Buffer.from(new Float32Array(embedding).buffer) },
+      SORTBY: "distance",
+      RETURN: [
+        "prompt",
+        "promptSimhash",
+        "url",
+        "contentHash",
+        "response",
+        "model",
+        "template",
+        "tokens",
+        "createdAt",
+        "distance",
+      ],
+      LIMIT: { from: 0, size: 1 },
+      DIALECT: 2,
+    })
+
+    const [document] = reply.documents
+    if (!document) return null
+
+    const fields = document.value as Record<string, string | undefined>
+    return {
+      entry: {
+        prompt: fields.prompt || "",
+        promptSimhash: fields.promptSimhash || "",
+        url: fields.url || "",
+        ...(fields.contentHash ? { contentHash: fields.contentHash } : {}),
+        response: fields.response || "",
+        model: fields.model || "",
+        template: fields.template || "",
+        tokens: Number(fields.tokens || 0),
+        createdAt: fields.createdAt || "",
+      },
+      distance: Number(fields.distance),
+    }
+  }
+
+  /**
+   * Count a semantic cache lookup: a hit saves the cached generation's tokens,
+   * a miss spends the new generation's
+   */
+  async recordSemanticCacheLookup(hit: boolean, tokens: number): Promise<void> {
+    const client = await this.getClient()
+    const key = RedisKeys.semanticCacheStats()
+    await client.hIncrBy(key, hit ? "hits" : "misses", 1)
+    if (tokens > 0) {
+      await client.hIncrBy(key, hit ? "savedTokens" : "usedTokens", tokens)
+    }
+  }
+
+  async getSemanticCacheStats(): Promise<SemanticCacheStats> {
+    const client = await this.getClient()
+    const stats = await client.hGetAll(RedisKeys.semanticCacheStats())
+    return {
+      hits: Number(stats.hits || 0),
+      misses: Number(stats.misses || 0),
+      savedTokens: Number(stats.savedTokens || 0),
+      usedTokens: Number(stats.usedTokens || 0),
+    }
+  }
+
+  /**
+   * Create the full-text page index unless it exists
+   */
+  async ensureKeywordIndex(): Promise<void> {
+    await this.ensureSearchIndex(RedisKeys.keywordIndex(), "doc:", {
+      urlHash: SCHEMA_FIELD_TYPE.TAG,
+      domain: SCHEMA_FIELD_TYPE.TAG,
+      pageName: { type: SCHEMA_FIELD_TYPE.TEXT, WEIGHT: 2 },
+      markdown: SCHEMA_FIELD_TYPE.TEXT,
+      ...FILTER_SCHEMA,
+    })
+  }
+
+  /**
+   * Create an index over hashes with `prefix`, or add fields missing from an
+   * index created by an older version. Hashes written before a field existed
+   * do not have it until they are re-indexed. Returns true when the index was created.
+   */
+  private async ensureSearchIndex(index: string, prefix: string, schema: RediSearchSchema): Promise<boolean> {
+    const client = await this.getClient()
+
+    const existing = await client.ft._list()
+    if (!existing.map((name) => name.toString()).includes(index)) {
+      await client.ft.create(index, schema, { ON: "HASH", PREFIX: prefix })
+      console.log(`[v0] Created search index ${index}`)
+      return true
+    }
+
+    const info = await client.ft.info(index)
+    const known = new Set(
+      info.attributes.map((attribute) => String((attribute as Record<string, unknown>).attribute)),
+    )
+    const missing = Object.fromEntries(Object.entries(schema).filter(([field]) => !known.has(field)))
+    if (Object.keys(missing).length > 0) {
+      await client.ft.alter(index, missing)
+      console.log(`[v0] Added fields to search index ${index}:`, Object.keys(missing))
+    }
+    return false
+  }
+
+  /**
+   * Store a page's full markdown for keyword search; the keyword index picks it up automatically
+   */
+  async storeSearchDocument(document: SearchDocument): Promise<void> {
+    const client = await this.getClient()
+    await client.hSet(RedisKeys.searchDocument(document.urlHash), {
+      urlHash: document.urlHash,
+      url: document.url,
+      domain: document.domain,
+      pageName: document.pageName,
+      markdown: document.markdown,
+      fetchedAt: document.fetchedAt,
+      ...(document.metadata ? { metadata: JSON.stringify(document.metadata) } : {}),
+      ...filterFields(document),
+    })
+  }
+
+  /**
+   * Remove a page from keyword search
+   */
+  async deleteSearchDocument(urlHash: string): Promise<void> {
+    const client = await this.getClient()
+    await client.del(RedisKeys.searchDocument(urlHash))
+  }
+
+  /**
+   * Full-text search ranked by BM25, best first. `markdown` comes back as a
+   * short fragment around the matched terms.
+   */
+  async searchDocuments(
+    query: string,
+    limit: number,
+    filters: SearchFilters = {},
+  ): Promise<Array<{ document: SearchDocument; fragment: string; score: number }>> {
+    const client = await this.getClient()
+    const filterQuery = toFilterQuery(filters)
+    const reply = await client.ft.search(RedisKeys.keywordIndex(), filterQuery ? `${filterQuery} (${query})` : query, {
+      WITHSCORES: true,
+      SCORER: "BM25",
+      RETURN: ["urlHash", "url", "domain", "pageName", "markdown", "fetchedAt", "metadata", "path", "language", "pageType"],
+      SUMMARIZE: { FIELDS: ["markdown"], FRAGS: 1, LEN: 40 },
+      LIMIT: { from: 0, size: limit },
+      DIALECT: 2,
+    })
+
+    // SUMMARIZE replaces the returned markdown with a fragment; read the full text separately
+    const markdowns = await Promise.all(reply.documents.map(({ id }) => client.hGet(id, "markdown")))
+
+    return reply.documents.map(({ value, score }, i) => {
+      const fields = value as Record<string, string | undefined>
+      return {
+        document: {
+          urlHash: fields.urlHash || "",
+          url: fields.url || "",
+          domain: fields.domain || "",
+          pageName: fields.pageName || "",
+          markdown: markdowns[i] || fields.markdown || "",
+          fetchedAt: fields.fetchedAt || "",
+          ...(fields.metadata ? { metadata: JSON.parse(fields.metadata) } : {}),
+          path: fields.path || "/",
+          language: fields.language || undefined,
+          pageType: fields.pageType || undefined,
+        },
+        fragment: fields.markdown || "",
+        score: Number(score ?? 0),
+      }
+    })
+  }
+
+  /**
+   * Number of search documents per value of a field, over every document
+   * matching `filters` (most common first). Documents without the field are
+   * not counted.
+   */
+  async countSearchDocuments(
+    field: "domain" | "path" | "language" | "pageType",
+    filters: SearchFilters = {},
+    limit = 50,
+  ): Promise<Array<{ value: string; count: number }>> {
+    const client = await this.getClient()
+    const reply = await client.ft.aggregate(RedisKeys.keywordIndex(), toFilterQuery(filters) || "*", {
+      LOAD: `@${field}`,
+      STEPS: [
+        {
+          type: FT_AGGREGATE_STEPS.GROUPBY,
+          properties: `@${field}`,
+          REDUCE: { type: FT_AGGREGATE_GROUP_BY_REDUCERS.COUNT, AS: "count" },
+        },
+        { type: FT_AGGREGATE_STEPS.SORTBY, BY: { BY: "@count", DIRECTION: "DESC" } },
+        { type: FT_AGGREGATE_STEPS.LIMIT, from: 0, size: limit },
+      ],
+      DIALECT: 2,
+    })
+
+    return reply.results
+      .map((row) => {
+        const fields = row as unknown as Record<string, string | null | undefined>
+        return { value: fields[field] || "", count: Number(fields.count || 0) }
+      })
+      .filter(({ value }) => value !== "")
+  }
+
+  private async deleteIndexedKeys(index: string, query: string): Promise<void> {
+    const client = await this.getClient()
+
+    try {
+      // Delete in pages; the index drops deleted keys, so the next query starts over
+      for (;;) {
+        const reply = await client.ft.searchNoContent(index, query, {
+          LIMIT: { from: 0, size: 500 },
+          DIALECT: 2,
+        })
+        if (reply.documents.length === 0) return
+        await client.del(reply.documents)
+      }
+    } catch (error) {
+      // No index yet, or no query engine at all (plain Redis), means nothing was indexed to delete
+      if (error instanceof Error && /no such index|unknown index|unknown command/i.test(error.message)) return
+      throw error
+    }
+  }
+
   /**
    * Store processing status
    */
@@ -168,12 +696,8 @@ export class RedisService {
   /**
    * Store a cached prompt entry
    */
-  async storePromptCache(urlHash: string, prompt: string): Promise<void> {
+  async storePromptCache(urlHash: string, entry: PromptCacheEntry): Promise<void> {
     const client = await this.getClient()
-    const entry: PromptCacheEntry = {
-      prompt,
-      cachedAt: new Date().toISOString(),
-    }
     await client.set(RedisKeys.promptCache(urlHash), JSON.stringify(entry))
   }
 
@@ -230,6 +754,522 @@ export class RedisService {
     await client.del(RedisKeys.responseCache(urlHash))
   }
 
+  /**
+   * Store a background job record
+   */
+  async storeJob(job: PipelineJob): Promise<void> {
+    const client = await this.getClient()
+    await client.set(RedisKeys.job(job.id), JSON.stringify(job), {
+      EX: 60 * 60 * 24 * 7, // 7 days TTL
+    })
+  }
+
+  /**
+   * Get a background job record
+   */
+  async getJob(jobId: string): Promise<PipelineJob | null> {
+    const client = await this.getClient()
+    const data = await client.get(RedisKeys.job(jobId))
+    if (!data) return null
+
+    try {
+      return JSON.parse(data) as PipelineJob
+    } catch (error) {
+      console.error("[v0] Failed to parse job record:", error)
+      return null
+    }
+  }
+
+  /**
+   * Push a job ID onto the pending queue
+   */
+  async enqueueJob(jobId: string): Promise<void> {
+    const client = await this.getClient()
+    await client.lPush(RedisKeys.jobQueue(), jobId)
+  }
+
+  /**
+   * Atomically move the oldest pending job ID onto the processing list.
+   * Returns null when the queue is empty.
+   */
+  async claimNextJobId(): Promise<string | null> {
+    const client = await this.getClient()
+    return await client.lMove(RedisKeys.jobQueue(), RedisKeys.jobProcessing(), "RIGHT", "LEFT")
+  }
+
+  /**
+   * Remove a finished job ID from the processing list
+   */
+  async acknowledgeJob(jobId: string): Promise<void> {
+    const client = await this.getClient()
+    await client.lRem(RedisKeys.jobProcessing(), 1, jobId)
+  }
+
+  /**
+   * Get job IDs currently claimed by workers
+   */
+  async getProcessingJobIds(): Promise<string[]> {
+    const client = await this.getClient()
+    return await client.lRange(RedisKeys.jobProcessing(), 0, -1)
+  }
+
+  /**
+   * Move a claimed job ID back to the front of the pending queue
+   */
+  async requeueJob(jobId: string): Promise<void> {
+    const client = await this.getClient()
+    await client.lRem(RedisKeys.jobProcessing(), 1, jobId)
+    await client.rPush(RedisKeys.jobQueue(), jobId)
+  }
+
+  /**
+   * ID of the latest job queued to resume a pipeline run
+   */
+  async getPipelineRunJobId(runId: string): Promise<string | null> {
+    const client = await this.getClient()
+    return await client.get(RedisKeys.pipelineRunJob(runId))
+  }
+
+  /**
+   * Record `jobId` as the run's job if the run's job is still `previousJobId`
+   * (null when none was recorded). Returns false when another request
+   * claimed the run first.
+   */
+  async claimPipelineRun(runId: string, jobId: string, previousJobId: string | null): Promise<boolean> {
+    const client = await this.getClient()
+    const claimed = await client.eval(
+      `local current = redis.call("GET", KEYS[1])
+      if (current or "") ~= ARGV[1] then return 0 end
+      redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+      return 1`,
+      {
+        keys: [RedisKeys.pipelineRunJob(runId)],
+        arguments: [previousJobId ?? "", jobId, String(60 * 60 * 24 * 7)], // Same TTL as the run
+      },
+    )
+    return claimed === 1
+  }
+
+  /**
+   * Store pipeline run state
+   */
+  async storePipelineRun(run: PipelineRun): Promise<void> {
+    const client = await this.getClient()
+    await client.set(RedisKeys.pipelineRun(run.runId), JSON.stringify(run), {
+      EX: 60 * 60 * 24 * 7, // 7 days TTL
+    })
+  }
+
+  /**
+   * Get pipeline run state
+   */
+  async getPipelineRun(runId: string): Promise<PipelineRun | null> {
+    const client = await this.getClient()
+    const data = await client.get(RedisKeys.pipelineRun(runId))
+    if (!data) return null
+
+    try {
+      return JSON.parse(data) as PipelineRun
+    } catch (error) {
+      console.error("[v0] Failed to parse pipeline run:", error)
+      return null
+    }
+  }
+
+  /**
+   * Record a URL as completed for a pipeline stage
+   */
+  async addCheckpoint(runId: string, stage: PipelineStage, urlHash: string): Promise<void> {
+    const client = await this.getClient()
+    const key = RedisKeys.checkpoint(runId, stage)
+    await client.sAdd(key, urlHash)
+    await client.expire(key, 60 * 60 * 24 * 7) // 7 days TTL
+  }
+
+  /**
+   * Get URL hashes already completed for a pipeline stage
+   */
+  async getCheckpoints(runId: string, stage: PipelineStage): Promise<Set<string>> {
+    const client = await this.getClient()
+    const members = await client.sMembers(RedisKeys.checkpoint(runId, stage))
+    return new Set(members)
+  }
+
+  /**
+   * Store a crawl schedule. Only unpaused schedules are kept in the due-time index.
+   */
+  async storeSchedule(schedule: CrawlSchedule): Promise<void> {
+    const client = await this.getClient()
+    await client.set(RedisKeys.schedule(schedule.domain), JSON.stringify(schedule))
+
+    if (schedule.paused) {
+      await client.zRem(RedisKeys.scheduleIndex(), schedule.domain)
+    } else {
+      await client.zAdd(RedisKeys.scheduleIndex(), {
+        score: new Date(schedule.nextRunAt).getTime(),
+        value: schedule.domain,
+      })
+    }
+  }
+
+  /**
+   * Get a crawl schedule
+   */
+  async getSchedule(domain: string): Promise<CrawlSchedule | null> {
+    const client = await this.getClient()
+    const data = await client.get(RedisKeys.schedule(domain))
+    if (!data) return null
+
+    try {
+      return JSON.parse(data) as CrawlSchedule
+    } catch (error) {
+      console.error("[v0] Failed to parse crawl schedule:", error)
+      return null
+    }
+  }
+
+  /**
+   * Get all crawl schedules (including paused ones)
+   */
+  async getSchedules(): Promise<CrawlSchedule[]> {
+    const domains: string[] = []
+    await this.scanKeys("schedule:*", (key) => {
+      domains.push(key.substring("schedule:".length))
+    })
+
+    const schedules = await Promise.all(domains.map((domain) => this.getSchedule(domain)))
+    return schedules
+      .filter((schedule): schedule is CrawlSchedule => schedule !== null)
+      .sort((a, b) => a.domain.localeCompare(b.domain))
+  }
+
+  /**
+   * Get domains whose schedule is due at or before `now`
+   */
+  async getDueScheduleDomains(now: number): Promise<string[]> {
+    const client = await this.getClient()
+    return await client.zRangeByScore(RedisKeys.scheduleIndex(), 0, now)
+  }
+
+  /**
+   * Atomically claim a schedule that is due at `now` by moving its next run
+   * time to `leaseUntil`. If the claimer dies before storing the schedule, it
+   * becomes due again then. Returns false if another scheduler got it first.
+   */
+  async claimSchedule(domain: string, now: number, leaseUntil: number): Promise<boolean> {
+    const client = await this.getClient()
+    const claimed = await client.eval(
+      `local score = redis.call("ZSCORE", KEYS[1], ARGV[1])
+      if not score or tonumber(score) > tonumber(ARGV[2]) then return 0 end
+      redis.call("ZADD", KEYS[1], "XX", ARGV[3], ARGV[1])
+      return 1`,
+      {
+        keys: [RedisKeys.scheduleIndex()],
+        arguments: [domain, String(now), String(leaseUntil)],
+      },
+    )
+    return claimed === 1
+  }
+
+  /**
+   * Delete a crawl schedule
+   */
+  async deleteSchedule(domain: string): Promise<void> {
+    const client = await this.getClient()
+    await client.zRem(RedisKeys.scheduleIndex(), domain)
+    await client.del(RedisKeys.schedule(domain))
+  }
+
+  /**
+   * Store per-domain scraper settings
+   */
+  async storeScraperConfig(config: DomainScraperConfig): Promise<void> {
+    const client = await this.getClient()
+    await client.set(RedisKeys.scraperConfig(config.domain), JSON.stringify(config))
+  }
+
+  /**
+   * Get per-domain scraper settings
+   */
+  async getScraperConfig(domain: string): Promise<DomainScraperConfig | null> {
+    const client = await this.getClient()
+    const data = await client.get(RedisKeys.scraperConfig(domain))
+    if (!data) return null
+
+    try {
+      return JSON.parse(data) as DomainScraperConfig
+    } catch (error) {
+      console.error("[v0] Failed to parse scraper config:", error)
+      return null
+    }
+  }
+
+  /**
+   * Get scraper settings for all configured domains
+   */
+  async getScraperConfigs(): Promise<DomainScraperConfig[]> {
+    const domains: string[] = []
+    await this.scanKeys("scraper:*", (key) => {
+      domains.push(key.substring("scraper:".length))
+    })
+
+    const configs = await Promise.all(domains.map((domain) => this.getScraperConfig(domain)))
+    return configs
+      .filter((config): config is DomainScraperConfig => config !== null)
+      .sort((a, b) => a.domain.localeCompare(b.domain))
+  }
+
+  /**
+   * Delete per-domain scraper settings
+   */
+  async deleteScraperConfig(domain: string): Promise<void> {
+    const client = await this.getClient()
+    await client.del(RedisKeys.scraperConfig(domain))
+  }
+
+  /**
+   * Store a prompt template version. Returns false if that version already exists.
+   */
+  async storePromptTemplate(template: PromptTemplate): Promise<boolean> {
+    const client = await this.getClient()
+    const added = await client.hSetNX(
+      RedisKeys.promptTemplate(template.id),
+      String(template.version),
+      JSON.stringify(template),
+    )
+    return added === 1
+  }
+
+  /**
+   * Issue the next version number for a template ID, at least `minVersion`.
+   * Numbers are never reused, even after the template is deleted, so cache
+   * entries tagged with a deleted version cannot match a new text.
+   */
+  async reservePromptTemplateVersion(templateId: string, minVersion: number): Promise<number> {
+    const client = await this.getClient()
+    const version = await client.eval(
+      `local version = redis.call("HINCRBY", KEYS[1], ARGV[1], 1)
+      if version < tonumber(ARGV[2]) then
+        redis.call("HSET", KEYS[1], ARGV[1], ARGV[2])
+        version = tonumber(ARGV[2])
+      end
+      return version`,
+      {
+        keys: [RedisKeys.promptTemplateVersions()],
+        arguments: [templateId, String(minVersion)],
+      },
+    )
+    return Number(version)
+  }
+
+  /**
+   * Get every stored version of a prompt template, oldest first
+   */
+  async getPromptTemplateVersions(templateId: string): Promise<PromptTemplate[]> {
+    const client = await this.getClient()
+    const versions = await client.hVals(RedisKeys.promptTemplate(templateId))
+
+    return versions
+      .flatMap((data) => {
+        try {
+          return [JSON.parse(data) as PromptTemplate]
+        } catch (error) {
+          console.error("[v0] Failed to parse prompt template:", error)
+          return []
+        }
+      })
+      .sort((a, b) => a.version - b.version)
+  }
+
+  /**
+   * Get one version of a prompt template, or its latest version
+   */
+  async getPromptTemplate(templateId: string, version?: number): Promise<PromptTemplate | null> {
+    if (version === undefined) {
+      const versions = await this.getPromptTemplateVersions(templateId)
+      return versions[versions.length - 1] ?? null
+    }
+
+    const client = await this.getClient()
+    const data = await client.hGet(RedisKeys.promptTemplate(templateId), String(version))
+    if (!data) return null
+
+    try {
+      return JSON.parse(data) as PromptTemplate
+    } catch (error) {
+      console.error("[v0] Failed to parse prompt template:", error)
+      return null
+    }
+  }
+
+  /**
+   * Get the latest version of every stored prompt template
+   */
+  async getPromptTemplates(): Promise<PromptTemplate[]> {
+    const templateIds: string[] = []
+    await this.scanKeys("template:*", (key) => {
+      templateIds.push(key.substring("template:".length))
+    })
+
+    const templates = await Promise.all(templateIds.map((templateId) => this.getPromptTemplate(templateId)))
+    return templates
+      .filter((template): template is PromptTemplate => template !== null)
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  /**
+   * Delete a prompt template with all its versions
+   */
+  async deletePromptTemplate(templateId: string): Promise<void> {
+    const client = await this.getClient()
+    await client.del(RedisKeys.promptTemplate(templateId))
+  }
+
+  /**
+   * Store the prompt template selected for a domain
+   */
+  async storeDomainPromptTemplate(selection: DomainPromptTemplate): Promise<void> {
+    const client = await this.getClient()
+    await client.set(RedisKeys.domainPromptTemplate(selection.domain), JSON.stringify(selection))
+  }
+
+  /**
+   * Get the prompt template selected for a domain
+   */
+  async getDomainPromptTemplate(domain: string): Promise<DomainPromptTemplate | null> {
+    const client = await this.getClient()
+    const data = await client.get(RedisKeys.domainPromptTemplate(domain))
+    if (!data) return null
+
+    try {
+      return JSON.parse(data) as DomainPromptTemplate
+    } catch (error) {
+      console.error("[v0] Failed to parse domain prompt template:", error)
+      return null
+    }
+  }
+
+  /**
+   * Get the prompt template selections of all configured domains
+   */
+  async getDomainPromptTemplates(): Promise<DomainPromptTemplate[]> {
+    const domains: string[] = []
+    await this.scanKeys("template-domain:*", (key) => {
+      domains.push(key.substring("template-domain:".length))
+    })
+
+    const selections = await Promise.all(domains.map((domain) => this.getDomainPromptTemplate(domain)))
+    return selections
+      .filter((selection): selection is DomainPromptTemplate => selection !== null)
+      .sort((a, b) => a.domain.localeCompare(b.domain))
+  }
+
+  /**
+   * Revert a domain to the default prompt template
+   */
+  async deleteDomainPromptTemplate(domain: string): Promise<void> {
+    const client = await this.getClient()
+    await client.del(RedisKeys.domainPromptTemplate(domain))
+  }
+
+  /**
+   * Move a URL's records from `oldHash` to `newHash`: the URL record, page
+   * content, prompt and response caches, search document, vector chunks,
+   * domain list entry and fingerprint. When records already exist under
+   * `newHash` they are kept and the old ones are dropped; returns false then.
+   */
+  async rekeyUrl(domain: string, oldHash: string, newHash: string): Promise<boolean> {
+    const client = await this.getClient()
+    const listKey = RedisKeys.urlList(domain)
+    const fingerprintsKey = RedisKeys.fingerprints(domain)
+
+    const chunkKeys: string[] = []
+    await this.scanKeys(`chunk:${oldHash}:*`, (key) => chunkKeys.push(key))
+
+    const moves: Array<[string, string]> = [
+      [RedisKeys.url(oldHash), RedisKeys.url(newHash)],
+      [RedisKeys.content(oldHash), RedisKeys.content(newHash)],
+      [RedisKeys.promptCache(oldHash), RedisKeys.promptCache(newHash)],
+      [RedisKeys.responseCache(oldHash), RedisKeys.responseCache(newHash)],
+      [RedisKeys.searchDocument(oldHash), RedisKeys.searchDocument(newHash)],
+      ...chunkKeys.map((key): [string, string] => [key, `chunk:${newHash}:${key.split(":").pop()}`]),
+    ]
+
+    const merged = (await client.exists(RedisKeys.url(newHash))) === 1
+    if (merged) {
+      await client.del(moves.map(([from]) => from))
+    } else {
+      const record = await this.getUrlRecord(oldHash)
+      if (record) {
+        await client.set(RedisKeys.url(oldHash), JSON.stringify({ ...record, urlHash: newHash }))
+      }
+
+      for (const [from, to] of moves) {
+        if ((await client.exists(from)) === 0) continue
+        await client.rename(from, to)
+        // Search documents and chunks store their urlHash for the indexes
+        if (to.startsWith("doc:") || to.startsWith("chunk:")) {
+          await client.hSet(to, "urlHash", newHash)
+        }
+      }
+
+      const score = await client.zScore(listKey, oldHash)
+      await client.zAdd(listKey, { score: score ?? Date.now(), value: newHash })
+
+      const fingerprint = await client.hGet(fingerprintsKey, oldHash)
+      if (fingerprint) await client.hSet(fingerprintsKey, newHash, fingerprint)
+    }
+
+    await client.zRem(listKey, oldHash)
+    await client.hDel(fingerprintsKey, oldHash)
+    return !merged
+  }
+
+  /**
+   * Replace URL hashes in pipeline checkpoints after URLs were re-keyed
+   */
+  async rekeyCheckpoints(newHashes: Map<string, string>): Promise<void> {
+    const client = await this.getClient()
+    const keys: string[] = []
+    await this.scanKeys("checkpoint:*", (key) => keys.push(key))
+
+    for (const key of keys) {
+      const members = await client.sMembers(key)
+      const renamed = members.filter((member) => newHashes.has(member))
+      if (renamed.length === 0) continue
+
+      await client.sAdd(key, renamed.map((member) => newHashes.get(member) as string))
+      await client.sRem(key, renamed)
+    }
+  }
+
+  /**
+   * Whether a one-time migration has completed
+   */
+  async isMigrationDone(name: string): Promise<boolean> {
+    const client = await this.getClient()
+    return (await client.exists(RedisKeys.migration(name))) === 1
+  }
+
+  /**
+   * Take the lock for running a migration so only one process runs it.
+   * Expires after `ttlSeconds` in case the process dies mid-way.
+   */
+  async claimMigration(name: string, ttlSeconds: number): Promise<boolean> {
+    const client = await this.getClient()
+    const result = await client.set(RedisKeys.migration(`${name}:lock`), new Date().toISOString(), {
+      NX: true,
+      EX: ttlSeconds,
+    })
+    return result === "OK"
+  }
+
+  async markMigrationDone(name: string): Promise<void> {
+    const client = await this.getClient()
+    await client.set(RedisKeys.migration(name), new Date().toISOString())
+    await client.del(RedisKeys.migration(`${name}:lock`))
+  }
+
   /**
    * Get all domains that have cached data.
    */
@@ -277,7 +1317,7 @@ export class RedisService {
     const hashes = await client.zRange(listKey, 0, -1)
 
     // Delete all URL records and content
-    const deletePromises = hashes.flatMap((hash) => [
+    const deletePromises: Promise<unknown>[] = hashes.flatMap((hash) => [
       client.del(RedisKeys.url(hash)),
       client.del(RedisKeys.content(hash)),
       client.del(RedisKeys.promptCache(hash)),
@@ -289,8 +1329,53 @@ export class RedisService {
       client.del(RedisKeys.sitemap(domain)),
       client.del(listKey),
       client.del(RedisKeys.status(domain)),
+      client.del(RedisKeys.fingerprints(domain)),
+      this.deleteIndexedKeys(RedisKeys.vectorIndex(), `@domain:{${escapeTag(domain)}}`),
+      this.deleteIndexedKeys(RedisKeys.keywordIndex(), `@domain:{${escapeTag(domain)}}`),
     )
 
     await Promise.all(deletePromises)
   }
 }
+
+/**
+ * Hash fields behind FILTER_SCHEMA
+ */
+function filterFields(entry: { path: string; language?: string; pageType?: string; fetchedAt: string }) {
+  const fetchedAtMs = Date.parse(entry.fetchedAt)
+  return {
+    path: entry.path,
+    ...(entry.language ? { language: entry.language } : {}),
+    ...(entry.pageType ? { pageType: entry.pageType } : {}),
+    ...(Number.isNaN(fetchedAtMs) ? {} : { fetchedAtMs }),
+  }
+}
+
+/**
+ * RediSearch query clauses for filters, or "" when there are none
+ */
+function toFilterQuery(filters: SearchFilters): string {
+  const clauses: string[] = []
+  const language = normalizeLanguage(filters.language)
+  const pathPrefix = filters.pathPrefix?.replace(/^\/?/, "/")
+
+  if (filters.domain) clauses.push(`@domain:{${escapeTag(filters.domain.replace(/^https?:\/\/(www\.)?/, ""))}}`)
+  if (pathPrefix && pathPrefix !== "/") clauses.push(`@path:{${escapeTag(pathPrefix)}*}`)
+  if (language) clauses.push(`@language:{${escapeTag(language)}}`)
+  if (filters.type) clauses.push(`@pageType:{${escapeTag(filters.type.toLowerCase())}}`)
+
+  if (filters.fetchedAfter || filters.fetchedBefore) {
+    const from = filters.fetchedAfter ? Date.parse(filters.fetchedAfter) : Number.NaN
+    const to = filters.fetchedBefore ? Date.parse(filters.fetchedBefore) : Number.NaN
+    clauses.push(`@fetchedAtMs:[${Number.isNaN(from) ? "-inf" : from} ${Number.isNaN(to) ? "+inf" : to}]`)
+  }
+
+  return clauses.join(" ")
+}
+
+/**
+ * Escape punctuation in a RediSearch TAG query value
+ */
+function escapeTag(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_]/g, "\\$&")
+}
@@ -0,0 +1,169 @@
+import { generateText, Output } from "ai"
+import { z } from "zod"
+import type { PreTrainedModel, PreTrainedTokenizer } from "@huggingface/transformers"
+import type { LangCacheSearchResult } from "./langcache-service"
+
+/**
+ * Rescores search candidates against their full chunk text. First-stage
+ * similarity compares a query to short prompts or single vectors; a reranker
+ * reads the query and the passage together.
+ */
+export interface Reranker {
+  name: RerankerName
+  model: string
+  score: (query: string, passages: string[]) => Promise<number[]> // 0 to 1 per passage, higher is more relevant
+}
+
+export type RerankerName = "llm" | "cross-encoder"
+
+export const RERANKERS: RerankerName[] = ["llm", "cross-encoder"]
+
+const DEFAULT_MODELS: Record<RerankerName, string> = {
+  llm: "openai/gpt-4o-mini",
+  "cross-encoder": "Xenova/ms-marco-MiniLM-L-6-v2",
+}
+
+// Candidates rescored per query; the rest keep their first-stage order below them
+const RERANK_TOP_N = Number(process.env.RERANK_TOP_N || 20)
+
+// Passage length sent to the reranker
+const MAX_PASSAGE_CHARS = 2000
+
+/**
+ * Asks a chat model (AI SDK model id) to grade every passage in one call
+ */
+export class LLMReranker implements Reranker {
+  readonly name = "llm"
+
+  constructor(readonly model: string = DEFAULT_MODELS.llm) {}
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const { output } = await generateText({
+      model: this.model,
+      temperature: 0,
+      output: Output.object({
+        schema: z.object({ scores: z.array(z.number().min(0).max(10)) }),
+      }),
+      prompt: `Rate how well each passage answers the search query, from 0 (irrelevant) to 10 (fully answers it).
+Return one score per passage, in passage order.
+
+Query: ${query}
+
+${passages.map((passage, i) => `[${i + 1}]\n${passage}`).join("\n\n")}`,
+    })
+
+    return passages.map((_, i) => Math.min(Math.max((output?.scores[i] ?? 0) / 10, 0), 1))
+  }
+}
+
+/**
+ * MS MARCO cross-encoder run on the CPU with transformers.js (ONNX Runtime).
+ * Requires the @huggingface/transformers package.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = "cross-encoder"
+
+  constructor(readonly model: string = DEFAULT_MODELS["cross-encoder"]) {}
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const { tokenizer, model } = await loadCrossEncoder(this.model)
+    const inputs = tokenizer(new Array(passages.length).fill(query), {
+      text_pair: passages,
+      padding: true,
+      truncation: true,
+    })
+    const { logits } = await model(inputs)
+    return (logits.sigmoid().tolist() as number[][]).map(([score]) => score)
+  }
+}
+
+interface CrossEncoder {
+  tokenizer: PreTrainedTokenizer
+  model: PreTrainedModel
+}
+
+// Loaded cross-encoders by model id, shared across reranker instances
+const crossEncoders = new Map<string, Promise<CrossEncoder>>()
+
+function loadCrossEncoder(model: string): Promise<CrossEncoder> {
+  let loading = crossEncoders.get(model)
+  if (!loading) {
+    loading = (async () => {
+      console.log("[v0] Loading cross-encoder model:", model)
+      const { AutoTokenizer, AutoModelForSequenceClassification } = await import("@huggingface/transformers")
+      const [tokenizer, classifier] = await Promise.all([
+        AutoTokenizer.from_pretrained(model),
+        AutoModelForSequenceClassification.from_pretrained(model, { dtype: "fp32" }),
+      ])
+      return { tokenizer, model: classifier }
+    })()
+    // A failed load (e.g. no network for the first download) is retried next time
+    loading.catch(() => crossEncoders.delete(model))
+    crossEncoders.set(model, loading)
+  }
+  return loading
+}
+
+/**
+ * RERANKER names the reranker used when a search does not choose one; unset
+ * means searches are not reranked by default
+ */
+export function getDefaultRerankerName(): RerankerName | undefined {
+  const configured = process.env.RERANKER?.toLowerCase() as RerankerName | undefined
+  return configured && RERANKERS.includes(configured) ? configured : undefined
+}
+
+/**
+ * Read a request's `rerank` field: true uses the RERANKER default (or the LLM
+ * reranker), false turns reranking off, and omitting it defers to RERANKER
+ */
+export function parseRerankOption(value: unknown): { rerank?: RerankerName; error?: string } {
+  if (value === undefined) return { rerank: getDefaultRerankerName() }
+  if (value === true) return { rerank: getDefaultRerankerName() || "llm" }
+  if (value === false || value === null) return {}
+  if (typeof value === "string" && RERANKERS.includes(value as RerankerName)) return { rerank: value as RerankerName }
+  return { error: `rerank must be true, false or one of: ${RERANKERS.join(", ")}` }
+}
+
+export function createReranker(name: RerankerName): Reranker {
+  const model = process.env.RERANK_MODEL || DEFAULT_MODELS[name]
+  return name === "cross-encoder" ? new CrossEncoderReranker(model) : new LLMReranker(model)
+}
+
+/**
+ * Rescore the first RERANK_TOP_N results and sort them by `rerankScore`.
+ * `similarity` keeps the first-stage score. If the reranker fails, the
+ * results are returned in their original order.
+ */
+export async function rerankResults(
+  query: string,
+  results: LangCacheSearchResult[],
+  reranker: Reranker,
+): Promise<LangCacheSearchResult[]> {
+  const candidates = results.slice(0, RERANK_TOP_N)
+  if (candidates.length === 0) return results
+
+  try {
+    const startTime = Date.now()
+    const scores = await reranker.score(
+      query,
+      candidates.map((result) => (result.content || result.snippet).slice(0, MAX_PASSAGE_CHARS)),
+    )
+
+    console.log("[v0] Reranked search results:", {
+      query,
+      reranker: reranker.name,
+      model: reranker.model,
+      candidates: candidates.length,
+      durationMs: Date.now() - startTime,
+    })
+
+    const reranked = candidates
+      .map((result, i) => ({ ...result, rerankScore: scores[i] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+    return [...reranked, ...results.slice(RERANK_TOP_N)]
+  } catch (error) {
+    console.error("[v0] Reranking failed, keeping first-stage order:", error)
+    return results
+  }
+}
@@ -0,0 +1,293 @@
+import type { ScrapingOptions, ScrapingResult } from "./page-scraper"
+import type { PageMetadata } from "@/lib/redis"
+
+export interface HttpValidators {
+  etag?: string
+  lastModified?: string
+}
+
+/**
+ * Helpers and per-call settings handed to a strategy by PageScraper
+ */
+export interface ScrapeContext {
+  options: ScrapingOptions
+  validators?: HttpValidators // Send a conditional request (only meaningful for HTTP strategies)
+  htmlToMarkdown: (html: string, url: string) => { markdown: string; pageName: string; metadata: PageMetadata }
+  extractMetadata: (html: string, url: string) => PageMetadata // Structured data from a full HTML document
+  turndown: (html: string) => string
+}
+
+/**
+ * A way of turning a URL into markdown. Strategies report failure through
+ * `success: false` rather than throwing, so PageScraper can move on to the next one.
+ */
+export interface ScraperStrategy {
+  name: string
+  description?: string
+  scrape: (url: string, context: ScrapeContext) => Promise<ScrapingResult>
+}
+
+const BROWSER_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+
+/**
+ * Jina AI Reader API (bypasses most anti-bot protection)
+ */
+export const jinaStrategy: ScraperStrategy = {
+  name: "jina",
+  description: "Jina AI Reader API; handles JavaScript and most anti-bot protection",
+  async scrape(url) {
+    try {
+      console.log("[v0] Attempting to scrape with Jina AI Reader:", url)
+
+      // Jina AI Reader converts any URL to markdown
+      const jinaUrl = `https://r.jina.ai/${encodeURIComponent(url)}`
+
+      const response = await fetch(jinaUrl, {
+        headers: {
+          Accept: "text/markdown",
+          "X-Return-Format": "markdown",
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error(`Jina API returned ${response.status}`)
+      }
+
+      const markdown = await response.text()
+
+      // Extract page name from first heading or use URL
+      const firstHeading = markdown.match(/^#\s+(.+)$/m)
+      const pageName = firstHeading ? firstHeading[1] : new URL(url).pathname.split("/").pop() || "Untitled"
+
+      console.log("[v0] Successfully scraped with Jina:", url)
+
+      return {
+        success: true,
+        url,
+        pageName,
+        markdown,
+        contentLength: markdown.length,
+        method: "jina",
+      }
+    } catch (error) {
+      console.error("[v0] Jina scraping failed:", error)
+      return {
+        success: false,
+        url,
+        pageName: "Unknown",
+        error: `Jina scraping failed: ${(error as Error).message}`,
+        method: "jina",
+      }
+    }
+  },
+}
+
+/**
+ * Headless browser (Playwright) for JS-heavy sites
+ */
+export const browserStrategy: ScraperStrategy = {
+  name: "browser",
+  description: "Headless Chromium via Playwright; requires the playwright package",
+  async scrape(url, { options, turndown, extractMetadata }) {
+    const { timeout = 10000 } = options
+
+    try {
+      console.log("[v0] Attempting to scrape with headless browser:", url)
+
+      // Dynamic import of playwright
+      const { chromium } = await import("playwright")
+
+      const browser = await chromium.launch({
+        headless: true,
+      })
+
+      const context = await browser.newContext({
+        userAgent: BROWSER_USER_AGENT,
+        viewport: { width: 1920, height: 1080 },
+        locale: "en-US",
+      })
+
+      const page = await context.newPage()
+
+      // Navigate to page
+      await page.goto(url, {
+        waitUntil: "networkidle",
+        timeout,
+      })
+
+      // Wait for content to load
+      await page.waitForLoadState("domcontentloaded")
+
+      // Extract content
+      const content = await page.evaluate(() => {
+        const title = document.title
+        // Full rendered document, captured before cleanup, for structured data
+        const documentHtml = document.documentElement.outerHTML
+        const main = document.querySelector("main") || document.querySelector("article") || document.body
+
+        // Remove unwanted elements
+        const unwanted = main?.querySelectorAll(
+          "script, style, noscript, iframe, nav, header, footer, .advertisement, .ads",
+        )
+        unwanted?.forEach((el) => el.remove())
+
+        return {
+          title,
+          html: main?.innerHTML || "",
+          documentHtml,
+        }
+      })
+
+      await browser.close()
+
+      // Convert HTML to markdown
+      const markdown = turndown(content.html)
+      const cleanMarkdown = markdown.replace(/\n{3,}/g, "\n\n").trim()
+
+      console.log("[v0] Successfully scraped with browser:", url)
+
+      return {
+        success: true,
+        url,
+        pageName: content.title || "Untitled",
+        markdown: `# ${content.title}\n\n**URL:** ${url}\n\n${cleanMarkdown}`,
+        contentLength: cleanMarkdown.length,
+        method: "browser",
+        metadata: extractMetadata(content.documentHtml, url),
+      }
+    } catch (error) {
+      console.error("[v0] Browser scraping failed:", error)
+      return {
+        success: false,
+        url,
+        pageName: "Unknown",
+        error: `Browser scraping failed: ${(error as Error).message}`,
+        method: "browser",
+      }
+    }
+  },
+}
+
+/**
+ * Plain HTTP GET with browser-like headers. When validators from an earlier
+ * fetch are given, the request is conditional and a 304 comes back as `notModified`.
+ */
+export const fetchStrategy: ScraperStrategy = {
+  name: "fetch",
+  description: "Plain HTTP GET with browser-like headers; supports conditional requests",
+  async scrape(url, { options, validators = {}, htmlToMarkdown }) {
+    const { timeout = 10000, retries = 3 } = options
+
+    let lastError: Error | null = null
+
+    for (let attempt = 0; attempt < retries; attempt++) {
+      try {
+        console.log(`[v0] Fetch attempt ${attempt + 1}/${retries} for:`, url)
+
+        const controller = new AbortController()
+        const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+        const response = await fetch(url, {
+          signal: controller.signal,
+          headers: {
+            "User-Agent": BROWSER_USER_AGENT,
+            Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+            "Accept-Language": "en-US,en;q=0.9",
+            "Accept-Encoding": "gzip, deflate, br",
+            Connection: "keep-alive",
+            "Upgrade-Insecure-Requests": "1",
+            "Sec-Fetch-Dest": "document",
+            "Sec-Fetch-Mode": "navigate",
+            "Sec-Fetch-Site": "none",
+            "Cache-Control": "max-age=0",
+            ...(validators.etag ? { "If-None-Match": validators.etag } : {}),
+            ...(validators.lastModified ? { "If-Modified-Since": validators.lastModified } : {}),
+          },
+        })
+
+        clearTimeout(timeoutId)
+
+        if (response.status === 304) {
+          console.log("[v0] Not modified since last fetch:", url)
+          return {
+            success: true,
+            url,
+            pageName: "Unknown",
+            method: "fetch",
+            notModified: true,
+            etag: validators.etag,
+            lastModified: validators.lastModified,
+          }
+        }
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        }
+
+        const html = await response.text()
+
+        // Parse HTML and extract content
+        const { markdown, pageName, metadata } = htmlToMarkdown(html, url)
+
+        console.log("[v0] Successfully scraped with fetch:", url)
+
+        return {
+          success: true,
+          url,
+          pageName,
+          markdown,
+          contentLength: markdown.length,
+          method: "fetch",
+          metadata,
+          etag: response.headers.get("etag") || undefined,
+          lastModified: response.headers.get("last-modified") || undefined,
+        }
+      } catch (error) {
+        lastError = error as Error
+        console.error(`[v0] Fetch attempt ${attempt + 1} failed:`, lastError.message)
+
+        if (attempt < retries - 1) {
+          // Wait before retry (exponential backoff)
+          const delay = 1000 * Math.pow(2, attempt)
+          console.log(`[v0] Waiting ${delay}ms before retry...`)
+          await new Promise((resolve) => setTimeout(resolve, delay))
+        }
+      }
+    }
+
+    return {
+      success: false,
+      url,
+      pageName: "Unknown",
+      error: lastError?.message || "Fetch failed",
+      method: "fetch",
+    }
+  },
+}
+
+// Registry shared by every PageScraper in the process
+const strategies = new Map<string, ScraperStrategy>()
+
+/**
+ * Register a strategy, replacing any existing strategy with the same name
+ */
+export function registerScraperStrategy(strategy: ScraperStrategy): void {
+  strategies.set(strategy.name, strategy)
+}
+
+export function unregisterScraperStrategy(name: string): boolean {
+  return strategies.delete(name)
+}
+
+export function getScraperStrategy(name: string): ScraperStrategy | undefined {
+  return strategies.get(name)
+}
+
+export function listScraperStrategies(): ScraperStrategy[] {
+  return Array.from(strategies.values())
+}
+
+registerScraperStrategy(jinaStrategy)
+registerScraperStrategy(browserStrategy)
+registerScraperStrategy(fetchStrategy)
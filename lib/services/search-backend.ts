@@ -0,0 +1,43 @@
+import { LangCacheService, type LangCacheSearchResult } from "./langcache-service"
+import { VectorSearchService } from "./vector-search-service"
+import type { PageContent } from "@/lib/redis"
+
+/**
+ * Where page chunks are indexed and searched. PageScraper, the pipeline and
+ * the search route only talk to this interface.
+ */
+export interface SearchBackend {
+  name: SearchBackendName
+  indexPageContent: (pageContent: PageContent) => Promise<boolean> // Returns true when at least one chunk was written
+  removeIndexedPage: (url: string, urlHash?: string) => Promise<void> // urlHash defaults to hashUrl(url)
+  searchIndexedContent: (query: string, filters?: SearchFilters) => Promise<LangCacheSearchResult[]>
+}
+
+/**
+ * Narrow a search. Fields that a backend cannot express natively are applied
+ * to its results afterwards.
+ */
+export interface SearchFilters {
+  domain?: string
+  pathPrefix?: string // URL path prefix, e.g. "/docs"
+  fetchedAfter?: string // ISO date
+  fetchedBefore?: string // ISO date
+  language?: string // Primary language subtag, e.g. "en" (also matches "en-US")
+  type?: string // Page type from structured data, e.g. "article"
+}
+
+export type SearchBackendName = "langcache" | "redis"
+
+/**
+ * SEARCH_BACKEND picks the backend; without it, LangCache is used when
+ * LANGCACHE_API_KEY is set and the local Redis vector index otherwise
+ */
+export function getSearchBackendName(): SearchBackendName {
+  const configured = process.env.SEARCH_BACKEND?.toLowerCase()
+  if (configured === "langcache" || configured === "redis") return configured
+  return process.env.LANGCACHE_API_KEY ? "langcache" : "redis"
+}
+
+export function createSearchBackend(name: SearchBackendName = getSearchBackendName()): SearchBackend {
+  return name === "redis" ? new VectorSearchService() : new LangCacheService()
+}
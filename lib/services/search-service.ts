@@ -0,0 +1,206 @@
+import { KeywordSearchService } from "./keyword-search-service"
+import type { LangCacheSearchResult } from "./langcache-service"
+import { createReranker, rerankResults, type RerankerName } from "./reranker"
+import { createSearchBackend, type SearchBackend, type SearchFilters } from "./search-backend"
+import type { PageContent } from "@/lib/redis"
+import { extractDomain, hashUrl } from "@/lib/utils/hash"
+import { getPathFacet, normalizeLanguage, sortFacetCounts } from "@/lib/utils/search-chunks"
+
+export type SearchMode = "keyword" | "semantic" | "hybrid"
+
+export const SEARCH_MODES: SearchMode[] = ["keyword", "semantic", "hybrid"]
+
+export interface SearchOptions {
+  mode?: SearchMode
+  limit?: number
+  filters?: SearchFilters
+  rerank?: RerankerName // Rescore the top results with this reranker
+}
+
+// The search backend (semantic) and the keyword index
+export interface IndexTargets {
+  semantic: boolean
+  keyword: boolean
+}
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+// Value counts, most common first
+export interface SearchFacets {
+  domain: FacetCount[]
+  path: FacetCount[] // First path segment, e.g. "/docs"
+  language: FacetCount[]
+  type: FacetCount[]
+  // "index": every indexed page matching the filters; "results": only the
+  // returned results (when the keyword index is unavailable)
+  scope: "index" | "results"
+}
+
+// Reciprocal rank fusion constant; larger values flatten the gap between top ranks
+const RRF_K = 60
+
+/**
+ * Indexes pages into both the semantic backend and the keyword index, and
+ * answers queries from either or both, fusing hybrid results by rank.
+ */
+export class SearchService {
+  private semantic: SearchBackend
+  private keyword: KeywordSearchService
+
+  constructor() {
+    this.semantic = createSearchBackend()
+    this.keyword = new KeywordSearchService()
+  }
+
+  get backendName(): string {
+    return this.semantic.name
+  }
+
+  /**
+   * Write a page to the selected indexes and report which ones were updated,
+   * so a failed index can be retried on its own the next time the page is crawled
+   */
+  async indexPageContent(
+    pageContent: PageContent,
+    targets: IndexTargets = { semantic: true, keyword: true },
+  ): Promise<IndexTargets> {
+    const [semantic, keyword] = await Promise.all([
+      targets.semantic ? this.semantic.indexPageContent(pageContent) : false,
+      targets.keyword ? this.keyword.indexPageContent(pageContent) : false,
+    ])
+    return { semantic, keyword }
+  }
+
+  async removeIndexedPage(url: string, urlHash?: string): Promise<void> {
+    await Promise.all([
+      this.semantic.removeIndexedPage(url, urlHash),
+      this.keyword.removeIndexedPage(url, urlHash),
+    ])
+  }
+
+  /**
+   * Facet counts over all indexed pages matching the filters, falling back to
+   * counts within `results` when the keyword index cannot be aggregated
+   */
+  async getFacets(filters: SearchFilters, results: LangCacheSearchResult[]): Promise<SearchFacets> {
+    return (await this.keyword.countFacets(filters)) ?? computeFacets(results)
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<LangCacheSearchResult[]> {
+    const { limit = 20, rerank } = options
+    const results = await this.retrieve(query, options)
+    return rerank ? rerankResults(query, results.slice(0, limit), createReranker(rerank)) : results.slice(0, limit)
+  }
+
+  private async retrieve(query: string, options: SearchOptions): Promise<LangCacheSearchResult[]> {
+    const { mode = "hybrid", limit = 20, filters = {} } = options
+
+    if (mode === "keyword") {
+      return await this.keyword.search(query, limit, filters)
+    }
+
+    if (mode === "semantic") {
+      const results = await this.semantic.searchIndexedContent(query, filters)
+      return results.map((result) => ({ ...result, matchedBy: ["semantic"] }))
+    }
+
+    const [semanticResults, keywordResults] = await Promise.all([
+      this.semantic.searchIndexedContent(query, filters),
+      this.keyword.search(query, limit, filters),
+    ])
+    return fuseResults(semanticResults, keywordResults)
+  }
+}
+
+/**
+ * Count the filterable values across results, for faceted navigation when the
+ * keyword index cannot be aggregated
+ */
+export function computeFacets(results: LangCacheSearchResult[]): SearchFacets {
+  const counts = {
+    domain: new Map<string, number>(),
+    path: new Map<string, number>(),
+    language: new Map<string, number>(),
+    type: new Map<string, number>(),
+  }
+  const add = (facet: keyof typeof counts, value?: string) => {
+    if (value) counts[facet].set(value, (counts[facet].get(value) || 0) + 1)
+  }
+
+  for (const result of results) {
+    add("domain", extractDomain(result.url))
+    try {
+      add("path", getPathFacet(new URL(result.url).pathname))
+    } catch {
+      // Unparseable URL; no path facet
+    }
+    add("language", normalizeLanguage(result.metadata?.language))
+    add("type", result.metadata?.type?.toLowerCase())
+  }
+
+  return {
+    domain: sortFacetCounts(counts.domain),
+    path: sortFacetCounts(counts.path),
+    language: sortFacetCounts(counts.language),
+    type: sortFacetCounts(counts.type),
+    scope: "results",
+  }
+}
+
+
+/**
+ * Keep the known string filters of a request body; returns an error message
+ * for invalid dates
+ */
+export function parseSearchFilters(input: unknown): SearchFilters | string {
+  if (!input || typeof input !== "object") return {}
+
+  const raw = input as Record<string, unknown>
+  const filters: SearchFilters = {}
+  for (const key of ["domain", "pathPrefix", "fetchedAfter", "fetchedBefore", "language", "type"] as const) {
+    const value = raw[key]
+    if (typeof value === "string" && value.trim()) filters[key] = value.trim()
+  }
+
+  for (const key of ["fetchedAfter", "fetchedBefore"] as const) {
+    if (filters[key] && Number.isNaN(Date.parse(filters[key] as string))) {
+      return `filters.${key} must be a date`
+    }
+  }
+
+  return filters
+}
+
+/**
+ * Reciprocal rank fusion: each page scores the sum of 1 / (RRF_K + rank) over
+ * the lists it appears in. Ranks are comparable across lists even though
+ * cosine similarity and BM25 scores are not.
+ */
+function fuseResults(
+  semanticResults: LangCacheSearchResult[],
+  keywordResults: LangCacheSearchResult[],
+): LangCacheSearchResult[] {
+  const fused = new Map<string, LangCacheSearchResult>()
+
+  semanticResults.forEach((result, rank) => {
+    fused.set(hashUrl(result.url), { ...result, score: 1 / (RRF_K + rank + 1), matchedBy: ["semantic"] })
+  })
+
+  keywordResults.forEach((result, rank) => {
+    const score = 1 / (RRF_K + rank + 1)
+    const existing = fused.get(hashUrl(result.url))
+
+    if (existing) {
+      // Keep the semantic result's section and similarity
+      existing.score = (existing.score || 0) + score
+      existing.matchedBy = ["semantic", "keyword"]
+    } else {
+      fused.set(hashUrl(result.url), { ...result, score })
+    }
+  })
+
+  return Array.from(fused.values()).sort((a, b) => (b.score || 0) - (a.score || 0))
+}
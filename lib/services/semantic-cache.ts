@@ -0,0 +1,33 @@
+import { LangCacheService } from "./langcache-service"
+import { getSearchBackendName, type SearchBackendName } from "./search-backend"
+import { VectorSearchService } from "./vector-search-service"
+import type { SemanticCacheEntry } from "@/lib/redis"
+
+/**
+ * Reuses AI responses across prompts that mean the same thing. Unlike the
+ * exact `response:{urlHash}` cache, a lookup matches by embedding similarity,
+ * so a near-identical page at another URL can be answered without calling
+ * the model. Callers verify a match against the whole prompt.
+ */
+export interface SemanticCache {
+  name: SearchBackendName
+  lookupResponse: (
+    prompt: string,
+    model: string,
+    template: string, // getTemplateKey() of the prompt's template
+    similarityThreshold: number,
+  ) => Promise<SemanticCacheMatch | null>
+  storeResponse: (entry: SemanticCacheEntry, ttlSeconds: number) => Promise<void>
+}
+
+export interface SemanticCacheMatch extends SemanticCacheEntry {
+  similarity: number // 0 to 1
+}
+
+/**
+ * Semantic cache entries live in the same place as the search index:
+ * LangCache, or the local Redis vector index
+ */
+export function createSemanticCache(name: SearchBackendName = getSearchBackendName()): SemanticCache {
+  return name === "redis" ? new VectorSearchService() : new LangCacheService()
+}
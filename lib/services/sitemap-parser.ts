@@ -12,6 +12,9 @@ export interface ParsedSitemap {
   sitemapIndexUrls?: string[]
 }
 
+// Sitemap protocol limit for an uncompressed sitemap file
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024
+
 export class SitemapParser {
   private parser: XMLParser
 
@@ -37,22 +40,95 @@ export class SitemapParser {
         throw new Error(`Failed to fetch sitemap: ${response.status} ${response.statusText}`)
       }
 
-      const contentType = response.headers.get("content-type") || ""
-      const xmlContent = await response.text()
-
-      // Handle gzipped sitemaps
-      if (contentType.includes("gzip") || sitemapUrl.endsWith(".gz")) {
-        throw new Error(
-          "Gzipped sitemaps not supported in browser environment. Please provide uncompressed sitemap URL.",
-        )
-      }
+      const content = await this.readBody(response, sitemapUrl)
 
-      return this.parseXml(xmlContent)
+      return this.parseContent(content)
     } catch (error) {
       throw new Error(`Sitemap parsing failed: ${error instanceof Error ? error.message : "Unknown error"}`)
     }
   }
 
+  /**
+   * Read a sitemap response body, decompressing gzip on the fly.
+   *
+   * fetch() already decodes `Content-Encoding: gzip`, but `.xml.gz` files are
+   * usually served as `application/gzip` or `application/octet-stream` and
+   * arrive still compressed. The gzip magic bytes decide; the headers and file
+   * extension are only hints.
+   */
+  private async readBody(response: Response, sitemapUrl: string): Promise<string> {
+    if (!response.body) return ""
+
+    const reader = response.body.getReader()
+    const first = await reader.read()
+    if (first.done) return ""
+
+    const head = first.value
+    const isGzip = head.length >= 2 && head[0] === 0x1f && head[1] === 0x8b
+
+    const contentType = response.headers.get("content-type") || ""
+    const contentEncoding = response.headers.get("content-encoding") || ""
+    const gzipHinted = /gzip/i.test(contentType) || /gzip/i.test(contentEncoding) || /\.gz($|\?)/i.test(sitemapUrl)
+    if (gzipHinted && !isGzip) {
+      console.log("[v0] Sitemap advertised as gzip but body is already decompressed:", sitemapUrl)
+    }
+
+    // Re-attach the chunk we peeked at
+    let stream: ReadableStream<Uint8Array> = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(head)
+      },
+      async pull(controller) {
+        const { done, value } = await reader.read()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason)
+      },
+    })
+
+    if (isGzip) {
+      stream = stream.pipeThrough(new DecompressionStream("gzip") as ReadableWritablePair<Uint8Array, Uint8Array>)
+    }
+
+    const decoder = new TextDecoder("utf-8")
+    const streamReader = stream.getReader()
+    let totalBytes = 0
+    let text = ""
+
+    while (true) {
+      const { done, value } = await streamReader.read()
+      if (done) break
+
+      totalBytes += value.length
+      if (totalBytes > MAX_SITEMAP_BYTES) {
+        await streamReader.cancel()
+        throw new Error(`Sitemap exceeds ${MAX_SITEMAP_BYTES / (1024 * 1024)}MB uncompressed limit`)
+      }
+
+      text += decoder.decode(value, { stream: true })
+    }
+
+    return text + decoder.decode()
+  }
+
+  /**
+   * Detect the sitemap format (XML or plain text) and parse it
+   */
+  private parseContent(content: string): ParsedSitemap {
+    const trimmed = content.replace(/^\uFEFF/, "").trim()
+
+    if (trimmed.startsWith("<")) {
+      return this.parseXml(trimmed)
+    }
+
+    return this.parsePlainText(trimmed)
+  }
+
   /**
    * Parse XML content into structured data
    */
@@ -69,7 +145,105 @@ export class SitemapParser {
       return this.parseUrlSet(parsed.urlset)
     }
 
-    throw new Error("Invalid sitemap format: No urlset or sitemapindex found")
+    // RSS 2.0 feed
+    if (parsed.rss?.channel) {
+      return this.parseRssItems(parsed.rss.channel.item)
+    }
+
+    // RSS 1.0 (RDF) feed
+    if (parsed["rdf:RDF"]) {
+      return this.parseRssItems(parsed["rdf:RDF"].item)
+    }
+
+    // Atom feed
+    if (parsed.feed) {
+      return this.parseAtomFeed(parsed.feed)
+    }
+
+    throw new Error("Invalid sitemap format: No urlset, sitemapindex, RSS channel or Atom feed found")
+  }
+
+  /**
+   * Parse a plain-text sitemap (one URL per line)
+   */
+  private parsePlainText(content: string): ParsedSitemap {
+    const urls: SitemapUrl[] = content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => /^https?:\/\//i.test(line))
+      .map((loc) => ({ loc }))
+
+    if (urls.length === 0) {
+      throw new Error("Invalid sitemap format: No URLs found in plain-text sitemap")
+    }
+
+    return { urls }
+  }
+
+  /**
+   * Parse RSS items, using pubDate as lastmod
+   */
+  private parseRssItems(items: any): ParsedSitemap {
+    const list: any[] = Array.isArray(items) ? items : items ? [items] : []
+
+    const urls: SitemapUrl[] = list
+      .map((item: any): Partial<SitemapUrl> => {
+        // Fall back to a permalink guid when an item has no link
+        const guid = typeof item.guid === "object" ? item.guid : { "#text": item.guid }
+        const link =
+          this.textValue(item.link) ||
+          (guid?.["@_isPermaLink"] !== "false" ? this.textValue(guid?.["#text"]) : undefined)
+
+        return {
+          loc: link,
+          lastmod: this.toIsoDate(this.textValue(item.pubDate) || this.textValue(item["dc:date"])),
+        }
+      })
+      .filter((url): url is SitemapUrl => Boolean(url.loc && /^https?:\/\//i.test(url.loc)))
+
+    return { urls }
+  }
+
+  /**
+   * Parse Atom entries, using updated (or published) as lastmod
+   */
+  private parseAtomFeed(feed: any): ParsedSitemap {
+    const entries: any[] = Array.isArray(feed.entry) ? feed.entry : feed.entry ? [feed.entry] : []
+
+    const urls: SitemapUrl[] = entries
+      .map((entry: any): Partial<SitemapUrl> => {
+        const links = Array.isArray(entry.link) ? entry.link : entry.link ? [entry.link] : []
+        const alternate =
+          links.find((link: any) => typeof link === "object" && (!link["@_rel"] || link["@_rel"] === "alternate")) ||
+          links[0]
+        const href = typeof alternate === "object" ? alternate["@_href"] : this.textValue(alternate)
+
+        return {
+          loc: href,
+          lastmod: this.toIsoDate(this.textValue(entry.updated) || this.textValue(entry.published)),
+        }
+      })
+      .filter((url): url is SitemapUrl => Boolean(url.loc && /^https?:\/\//i.test(url.loc)))
+
+    return { urls }
+  }
+
+  /**
+   * Get the text of a parsed XML node (plain string or `#text` of an element with attributes)
+   */
+  private textValue(node: any): string | undefined {
+    if (node === undefined || node === null) return undefined
+    const value = typeof node === "object" ? node["#text"] : node
+    return value === undefined || value === null ? undefined : String(value).trim() || undefined
+  }
+
+  /**
+   * Normalize RFC 822 / RFC 3339 feed dates to ISO 8601
+   */
+  private toIsoDate(value: string | undefined): string | undefined {
+    if (!value) return undefined
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
   }
 
   /**
@@ -147,7 +321,7 @@ export class SitemapParser {
         return { valid: false, error: "Sitemap URL must use HTTP or HTTPS protocol" }
       }
 
-      if (!url.endsWith(".xml") && !url.includes("sitemap")) {
+      if (!url.endsWith(".xml") && !url.endsWith(".xml.gz") && !url.includes("sitemap")) {
         return { valid: false, error: "URL should point to a sitemap file (typically .xml)" }
       }
 
@@ -170,6 +344,10 @@ export class SitemapParser {
       `${origin}/sitemap_index.xml`,
       `${origin}/sitemap-index.xml`,
       `${origin}/sitemap1.xml`,
+      `${origin}/sitemap.txt`,
+      `${origin}/feed.xml`,
+      `${origin}/rss.xml`,
+      `${origin}/atom.xml`,
       `${origin}/robots.txt`, // Can check robots.txt for sitemap location
     ]
   }
@@ -0,0 +1,108 @@
+import { RedisService } from "./redis-service"
+import { SearchService } from "./search-service"
+import type { UrlRecord } from "@/lib/redis"
+import { hashUrl } from "@/lib/utils/hash"
+
+export const URL_HASH_MIGRATION = "normalized-url-hashes"
+
+// How long one process may hold the migration before another takes over
+const MIGRATION_LOCK_SECONDS = 60 * 60
+
+export interface UrlHashMigrationResult {
+  skipped: boolean // Already done, or running in another process
+  domains: number
+  rekeyed: number
+  merged: number // Records dropped because the normalized URL already had one
+}
+
+/**
+ * One-time migration for records written before URLs were normalized for
+ * hashing. Each record whose urlHash is not hashUrl(url) is moved to the new
+ * hash with its content, caches, search documents and chunks; references from
+ * duplicates, adopted canonicals and pipeline checkpoints are rewritten, and
+ * LangCache entries are re-indexed under the new hash. Safe to re-run:
+ * re-keyed records are skipped.
+ */
+export class UrlHashMigration {
+  private redisService: RedisService
+  private searchService: SearchService
+
+  constructor() {
+    this.redisService = new RedisService()
+    this.searchService = new SearchService()
+  }
+
+  async run(): Promise<UrlHashMigrationResult> {
+    const result: UrlHashMigrationResult = { skipped: true, domains: 0, rekeyed: 0, merged: 0 }
+
+    if (await this.redisService.isMigrationDone(URL_HASH_MIGRATION)) return result
+    if (!(await this.redisService.claimMigration(URL_HASH_MIGRATION, MIGRATION_LOCK_SECONDS))) {
+      console.log("[v0] URL hash migration is running in another process")
+      return result
+    }
+
+    result.skipped = false
+    const newHashes = new Map<string, string>()
+    const domains = await this.redisService.getDomains()
+
+    for (const domain of domains) {
+      const records = await this.getRecords(domain)
+      const stale = records.filter((record) => hashUrl(record.url) !== record.urlHash)
+      if (stale.length === 0) continue
+
+      result.domains++
+      for (const record of stale) {
+        const newHash = hashUrl(record.url)
+        newHashes.set(record.urlHash, newHash)
+
+        if (await this.redisService.rekeyUrl(domain, record.urlHash, newHash)) {
+          result.rekeyed++
+        } else {
+          result.merged++
+        }
+        await this.reindexPage(record.url, record.urlHash, newHash)
+      }
+
+      await this.rekeyDuplicateReferences(domain, newHashes)
+    }
+
+    await this.redisService.rekeyCheckpoints(newHashes)
+    await this.redisService.markMigrationDone(URL_HASH_MIGRATION)
+
+    console.log("[v0] URL hash migration complete:", result)
+    return result
+  }
+
+  private async getRecords(domain: string): Promise<UrlRecord[]> {
+    const count = await this.redisService.getUrlCount(domain)
+    return count > 0 ? this.redisService.getUrlsByDomain(domain, count) : []
+  }
+
+  /**
+   * The local indexes moved with the records; LangCache entries are tagged
+   * with the old hash, so they are removed and the page is indexed again
+   */
+  private async reindexPage(url: string, oldHash: string, newHash: string): Promise<void> {
+    if (this.searchService.backendName !== "langcache") return
+
+    await this.searchService.removeIndexedPage(url, oldHash)
+    const pageContent = await this.redisService.getPageContent(newHash)
+    if (pageContent) {
+      await this.searchService.indexPageContent(pageContent, { semantic: true, keyword: false })
+    }
+  }
+
+  private async rekeyDuplicateReferences(domain: string, newHashes: Map<string, string>): Promise<void> {
+    for (const record of await this.getRecords(domain)) {
+      const canonicalHash = record.duplicateOf && newHashes.get(record.duplicateOf)
+      const adopterHash = record.adoptedFrom && newHashes.get(record.adoptedFrom)
+      if (canonicalHash || adopterHash) {
+        await this.redisService.updateUrlRecord({
+          ...record,
+          ...(canonicalHash ? { duplicateOf: canonicalHash } : {}),
+          ...(adopterHash ? { adoptedFrom: adopterHash } : {}),
+        })
+      }
+    }
+  }
+}
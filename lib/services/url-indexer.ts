@@ -1,40 +1,109 @@
 import { RedisService } from "./redis-service"
-import { SitemapParser } from "./sitemap-parser"
+import { SitemapParser, type SitemapUrl } from "./sitemap-parser"
+import { LinkCrawler, type CrawlOptions } from "./link-crawler"
 import { hashUrl, extractDomain, generatePageName } from "@/lib/utils/hash"
-import { findSitemapInRobots } from "@/lib/utils/robots-parser"
+import { checkRobots, findSitemapInRobots } from "@/lib/utils/robots-parser"
 import type { UrlRecord, SitemapMetadata } from "@/lib/redis"
 
 export interface IndexingOptions {
   maxUrls?: number
   skipExisting?: boolean
   batchSize?: number
+  crawlFallback?: boolean // Crawl links from the homepage when no sitemap is found (default: true)
+  crawl?: CrawlOptions
+}
+
+export interface RefreshOptions extends IndexingOptions {
+  // Most new, changed and due URLs to return; the rest are left due for the next refresh
+  maxChangedUrls?: number
 }
 
 export interface IndexingResult {
   success: boolean
   domain: string
+  source?: "sitemap" | "crawl"
   totalUrls: number
   indexedUrls: number
   skippedUrls: number
   errors: string[]
 }
 
+export interface RefreshResult {
+  success: boolean
+  domain: string
+  sitemapUrl: string
+  totalUrls: number
+  newUrls: string[]
+  changedUrls: string[] // lastmod differs from the stored record
+  dueUrls: string[] // changefreq window elapsed or content no longer cached
+  unchangedUrls: number
+  removedUrls: string[] // tombstoned: no longer listed in the sitemap
+  deferredUrls: number // over maxChangedUrls, or robots.txt unreachable; returned by a later refresh
+  errors: string[]
+}
+
+// How long a page stays fresh for each sitemap changefreq value
+const CHANGEFREQ_WINDOWS: Record<string, number> = {
+  always: 0,
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000,
+  yearly: 365 * 24 * 60 * 60 * 1000,
+  never: Number.POSITIVE_INFINITY,
+}
+
 export class UrlIndexer {
   private redisService: RedisService
   private sitemapParser: SitemapParser
+  private linkCrawler: LinkCrawler
 
   constructor() {
     this.redisService = new RedisService()
     this.sitemapParser = new SitemapParser()
+    this.linkCrawler = new LinkCrawler()
   }
 
   /**
    * Index all URLs from a sitemap into Redis
    */
   async indexSitemap(sitemapUrl: string, options: IndexingOptions = {}): Promise<IndexingResult> {
+    return await this.indexUrlList(sitemapUrl, "sitemap", options, () =>
+      this.sitemapParser.parseRecursive(sitemapUrl),
+    )
+  }
+
+  /**
+   * Index the pages reachable by following links from `startUrl`, for sites
+   * without a sitemap
+   */
+  async indexByCrawling(startUrl: string, options: IndexingOptions = {}): Promise<IndexingResult> {
+    const { maxUrls = 10000, crawl = {} } = options
+    const crawlOptions: CrawlOptions = { ...crawl, maxPages: Math.min(crawl.maxPages ?? 100, maxUrls) }
+
+    return await this.indexUrlList(
+      startUrl,
+      "crawl",
+      options,
+      () => this.crawlUrls(startUrl, crawlOptions),
+      crawlOptions,
+    )
+  }
+
+  /**
+   * Store a UrlRecord for every URL the loader returns. `sourceUrl` is the
+   * sitemap URL, or the start page for crawled domains.
+   */
+  private async indexUrlList(
+    sourceUrl: string,
+    source: "sitemap" | "crawl",
+    options: IndexingOptions,
+    loadUrls: () => Promise<SitemapUrl[]>,
+    crawlOptions?: CrawlOptions,
+  ): Promise<IndexingResult> {
     const { maxUrls = 10000, skipExisting = true, batchSize = 50 } = options
 
-    const domain = extractDomain(sitemapUrl)
+    const domain = extractDomain(sourceUrl)
     const errors: string[] = []
     let indexedUrls = 0
     let skippedUrls = 0
@@ -48,18 +117,20 @@ export class UrlIndexer {
         startedAt: new Date().toISOString(),
       })
 
-      // Parse sitemap recursively
-      const urls = await this.sitemapParser.parseRecursive(sitemapUrl)
+      // Parse sitemap recursively (or crawl)
+      const urls = await loadUrls()
       const totalUrls = Math.min(urls.length, maxUrls)
 
       // Store sitemap metadata
       const metadata: SitemapMetadata = {
         domain,
-        sitemapUrl,
+        sitemapUrl: sourceUrl,
         totalUrls,
         processedUrls: 0,
         lastProcessed: new Date().toISOString(),
         status: "processing",
+        source,
+        ...(crawlOptions ? { crawlOptions } : {}),
       }
       await this.redisService.storeSitemapMetadata(metadata)
 
@@ -71,7 +142,8 @@ export class UrlIndexer {
         startedAt: new Date().toISOString(),
       })
 
-      // Index URLs in batches
+      // Index URLs in batches (URLs that normalize to the same page are indexed once)
+      const seen = new Set<string>()
       const urlsToIndex = urls.slice(0, maxUrls)
       for (let i = 0; i < urlsToIndex.length; i += batchSize) {
         const batch = urlsToIndex.slice(i, i + batchSize)
@@ -80,6 +152,11 @@ export class UrlIndexer {
           batch.map(async (sitemapUrl) => {
             try {
               const urlHash = hashUrl(sitemapUrl.loc)
+              if (seen.has(urlHash)) {
+                skippedUrls++
+                return
+              }
+              seen.add(urlHash)
 
               // Check if URL already exists
               if (skipExisting) {
@@ -90,6 +167,12 @@ export class UrlIndexer {
                 }
               }
 
+              // Record URLs that robots.txt forbids, but never fetch them. While
+              // robots.txt is unreachable, URLs are recorded without a skip reason
+              // and checked again when scraped.
+              const robots = await checkRobots(sitemapUrl.loc)
+              const skipReason = robots.allowed || robots.unreachable ? undefined : robots.reason
+
               // Create URL record
               const urlRecord: UrlRecord = {
                 url: sitemapUrl.loc,
@@ -101,11 +184,16 @@ export class UrlIndexer {
                 changefreq: sitemapUrl.changefreq,
                 indexed: new Date().toISOString(),
                 processed: false,
+                ...(skipReason ? { skipReason } : {}),
               }
 
               // Index URL
               await this.redisService.indexUrl(urlRecord)
-              indexedUrls++
+              if (!skipReason) {
+                indexedUrls++
+              } else {
+                skippedUrls++
+              }
             } catch (error) {
               errors.push(
                 `Failed to index ${sitemapUrl.loc}: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -148,6 +236,7 @@ export class UrlIndexer {
       return {
         success: true,
         domain,
+        source,
         totalUrls,
         indexedUrls,
         skippedUrls,
@@ -168,6 +257,7 @@ export class UrlIndexer {
       return {
         success: false,
         domain,
+        source,
         totalUrls: 0,
         indexedUrls,
         skippedUrls,
@@ -177,13 +267,19 @@ export class UrlIndexer {
   }
 
   /**
-   * Auto-discover and index sitemap from domain
+   * Auto-discover and index sitemap from domain, falling back to crawling
+   * links from the homepage when the site has no usable sitemap
    */
   async autoDiscoverAndIndex(domain: string, options: IndexingOptions = {}): Promise<IndexingResult> {
+    const { crawlFallback = true } = options
+
     // Try to find sitemap in robots.txt
     const robotsSitemaps = await findSitemapInRobots(domain)
     if (robotsSitemaps.length > 0) {
-      return await this.indexSitemap(robotsSitemaps[0], options)
+      const result = await this.indexSitemap(robotsSitemaps[0], options)
+      if (result.success && result.totalUrls > 0) {
+        return result
+      }
     }
 
     // Try common sitemap locations
@@ -195,7 +291,7 @@ export class UrlIndexer {
 
         // Try to fetch and parse
         const result = await this.indexSitemap(url, options)
-        if (result.success) {
+        if (result.success && result.totalUrls > 0) {
           return result
         }
       } catch {
@@ -204,6 +300,12 @@ export class UrlIndexer {
       }
     }
 
+    if (crawlFallback) {
+      const homepage = new URL(domain.startsWith("http") ? domain : `https://${domain}`).origin
+      console.log("[v0] No sitemap found, crawling links from:", homepage)
+      return await this.indexByCrawling(homepage, options)
+    }
+
     return {
       success: false,
       domain: extractDomain(domain),
@@ -234,10 +336,214 @@ export class UrlIndexer {
     // Delete existing data
     await this.redisService.deleteDomainData(domain)
 
-    // Re-index from original sitemap URL
+    // Re-index from original sitemap URL (or start page)
+    if (metadata.source === "crawl") {
+      return await this.indexByCrawling(metadata.sitemapUrl, {
+        ...options,
+        skipExisting: false,
+        crawl: options.crawl ?? metadata.crawlOptions,
+      })
+    }
     return await this.indexSitemap(metadata.sitemapUrl, { ...options, skipExisting: false })
   }
 
+  /**
+   * Incrementally refresh a domain: diff the current sitemap against stored
+   * URL records, index new URLs, tombstone removed ones, and report which URLs
+   * need to be re-crawled. Stored content and AI responses are left intact.
+   */
+  async refreshDomain(domain: string, options: RefreshOptions = {}): Promise<RefreshResult> {
+    const { maxUrls = 10000, maxChangedUrls = Infinity } = options
+    const errors: string[] = []
+    const result: RefreshResult = {
+      success: false,
+      domain,
+      sitemapUrl: "",
+      totalUrls: 0,
+      newUrls: [],
+      changedUrls: [],
+      dueUrls: [],
+      unchangedUrls: 0,
+      removedUrls: [],
+      deferredUrls: 0,
+      errors,
+    }
+
+    const metadata = await this.redisService.getSitemapMetadata(domain)
+    if (!metadata) {
+      errors.push("No existing sitemap metadata found")
+      return result
+    }
+    result.sitemapUrl = metadata.sitemapUrl
+
+    try {
+      await this.redisService.updateProcessingStatus({
+        domain,
+        status: "parsing",
+        progress: { total: 0, completed: 0, failed: 0 },
+        startedAt: new Date().toISOString(),
+      })
+
+      const sitemapUrls = (await this.discoverUrls(metadata)).slice(0, maxUrls)
+      const storedCount = await this.redisService.getUrlCount(domain)
+      const storedRecords = await this.redisService.getUrlsByDomain(domain, Math.max(storedCount, 1))
+      const storedByHash = new Map(storedRecords.map((record) => [record.urlHash, record]))
+      const seen = new Set<string>()
+      const now = Date.now()
+
+      result.totalUrls = sitemapUrls.length
+
+      await this.redisService.updateProcessingStatus({
+        domain,
+        status: "indexing",
+        progress: { total: sitemapUrls.length, completed: 0, failed: 0 },
+        startedAt: new Date(now).toISOString(),
+      })
+
+      for (const sitemapUrl of sitemapUrls) {
+        try {
+          const urlHash = hashUrl(sitemapUrl.loc)
+          if (seen.has(urlHash)) continue
+          seen.add(urlHash)
+
+          const existing = storedByHash.get(urlHash)
+          const robots = await checkRobots(sitemapUrl.loc)
+          const full = result.newUrls.length + result.changedUrls.length + result.dueUrls.length >= maxChangedUrls
+          // URLs whose robots.txt is unreachable are deferred, not marked as skipped
+          const unreachable = Boolean(robots.unreachable)
+          const skipReason = robots.allowed || unreachable ? undefined : robots.reason
+
+          if (!existing) {
+            await this.redisService.indexUrl({
+              url: sitemapUrl.loc,
+              urlHash,
+              domain,
+              pageName: generatePageName(sitemapUrl.loc),
+              priority: sitemapUrl.priority,
+              lastmod: sitemapUrl.lastmod,
+              changefreq: sitemapUrl.changefreq,
+              indexed: new Date().toISOString(),
+              processed: false,
+              ...(skipReason ? { skipReason } : {}),
+            })
+            // A deferred new URL has no content yet, so it is due next time
+            if (unreachable || (robots.allowed && full)) result.deferredUrls++
+            else if (robots.allowed) result.newUrls.push(sitemapUrl.loc)
+            continue
+          }
+
+          const lastmodChanged = Boolean(sitemapUrl.lastmod && sitemapUrl.lastmod !== existing.lastmod)
+          const revived = Boolean(existing.removedAt)
+          // Keep the stored lastmod and tombstone of a deferred page, so it still
+          // counts as changed or revived on the next refresh
+          const deferred = (unreachable || (robots.allowed && full)) && (lastmodChanged || revived)
+
+          const updated: UrlRecord = {
+            ...existing,
+            priority: sitemapUrl.priority ?? existing.priority,
+            lastmod: deferred ? existing.lastmod : (sitemapUrl.lastmod ?? existing.lastmod),
+            changefreq: sitemapUrl.changefreq ?? existing.changefreq,
+            removedAt: deferred ? existing.removedAt : undefined,
+            skipReason: unreachable ? existing.skipReason : skipReason,
+          }
+          await this.redisService.updateUrlRecord(updated)
+
+          if (unreachable) {
+            result.deferredUrls++
+            continue
+          }
+          if (!robots.allowed) continue
+
+          if (lastmodChanged || revived) {
+            if (deferred) result.deferredUrls++
+            else result.changedUrls.push(sitemapUrl.loc)
+          } else if (await this.isDue(updated, now)) {
+            if (full) result.deferredUrls++
+            else result.dueUrls.push(sitemapUrl.loc)
+          } else {
+            result.unchangedUrls++
+          }
+        } catch (error) {
+          errors.push(
+            `Failed to refresh ${sitemapUrl.loc}: ${error instanceof Error ? error.message : "Unknown error"}`,
+          )
+        }
+      }
+
+      // Tombstone URLs that are no longer in the sitemap. Adopted canonicals
+      // were never listed; they stay while the duplicate that declared them does.
+      for (const record of storedRecords) {
+        if (seen.has(record.urlHash) || record.removedAt) continue
+        if (record.adoptedFrom && seen.has(record.adoptedFrom)) continue
+        await this.redisService.updateUrlRecord({ ...record, removedAt: new Date().toISOString() })
+        result.removedUrls.push(record.url)
+      }
+
+      metadata.totalUrls = sitemapUrls.length
+      metadata.lastProcessed = new Date().toISOString()
+      metadata.status = "completed"
+      await this.redisService.storeSitemapMetadata(metadata)
+
+      await this.redisService.updateProcessingStatus({
+        domain,
+        status: "completed",
+        progress: { total: sitemapUrls.length, completed: seen.size, failed: errors.length },
+        startedAt: new Date(now).toISOString(),
+        completedAt: new Date().toISOString(),
+      })
+
+      result.success = true
+      return result
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error"
+      errors.push(errorMessage)
+
+      await this.redisService.updateProcessingStatus({
+        domain,
+        status: "error",
+        progress: { total: result.totalUrls, completed: 0, failed: errors.length },
+        error: errorMessage,
+      })
+
+      return result
+    }
+  }
+
+  /**
+   * Current URL list for an indexed domain: re-parse its sitemap, or re-crawl
+   * crawled domains with the options they were first crawled with
+   */
+  private async discoverUrls(metadata: SitemapMetadata): Promise<SitemapUrl[]> {
+    if (metadata.source === "crawl") {
+      return await this.crawlUrls(metadata.sitemapUrl, metadata.crawlOptions)
+    }
+    return await this.sitemapParser.parseRecursive(metadata.sitemapUrl)
+  }
+
+  private async crawlUrls(startUrl: string, crawlOptions: CrawlOptions = {}): Promise<SitemapUrl[]> {
+    const crawl = await this.linkCrawler.crawl(startUrl, crawlOptions)
+    if (crawl.urls.length === 0) {
+      throw new Error(crawl.errors[0] || `Crawl of ${startUrl} found no pages`)
+    }
+    return crawl.urls
+  }
+
+  /**
+   * A stored URL is due for a re-crawl when its changefreq window has elapsed
+   * since the last crawl, or when its cached content has expired.
+   */
+  private async isDue(record: UrlRecord, now: number): Promise<boolean> {
+    const lastCrawled = record.lastCrawled ? new Date(record.lastCrawled).getTime() : 0
+    const window = record.changefreq ? CHANGEFREQ_WINDOWS[record.changefreq.toLowerCase()] : undefined
+
+    if (window !== undefined && now - lastCrawled >= window) {
+      return true
+    }
+
+    const content = await this.redisService.getPageContent(record.urlHash)
+    return content === null
+  }
+
   /**
    * Get indexing statistics for a domain
    */
@@ -0,0 +1,199 @@
+import { createEmbeddingProvider, type EmbeddingProvider } from "./embedding-provider"
+import { RedisService } from "./redis-service"
+import type { LangCacheSearchResult } from "./langcache-service"
+import type { SearchBackend, SearchFilters } from "./search-backend"
+import type { SemanticCache, SemanticCacheMatch } from "./semantic-cache"
+import type { PageContent, SemanticCacheEntry } from "@/lib/redis"
+import { extractDomain, hashContent, hashUrl } from "@/lib/utils/hash"
+import { buildSnippet } from "@/lib/utils/snippet"
+import { chunkPage, chunkSearchText, getFilterFields, groupByPage, toSearchMetadata } from "@/lib/utils/search-chunks"
+
+// Chunks fetched per query before grouping them into pages
+const VECTOR_SEARCH_K = Number(process.env.VECTOR_SEARCH_K || 20)
+
+/**
+ * Self-hosted search backend: page chunks are embedded and stored as Redis
+ * hashes covered by a RediSearch HNSW vector index, and queries run as KNN
+ * searches against it. Needs Redis Stack (or Redis 8) with the query engine.
+ * Each chunk records the embedding model that produced it, and the index
+ * refuses a provider whose model differs from the one it was built with.
+ * The same embeddings back the local semantic cache for AI responses.
+ */
+export class VectorSearchService implements SearchBackend, SemanticCache {
+  readonly name = "redis"
+  private redisService: RedisService
+  private embeddingProvider: EmbeddingProvider
+  private indexReady = false
+  private semanticCacheReady = false
+
+  constructor(embeddingProvider: EmbeddingProvider = createEmbeddingProvider()) {
+    this.redisService = new RedisService()
+    this.embeddingProvider = embeddingProvider
+  }
+
+  async indexPageContent(pageContent: PageContent): Promise<boolean> {
+    try {
+      const urlHash = hashUrl(pageContent.url)
+      const chunks = chunkPage(pageContent)
+
+      // Chunk counts change between versions, so drop every old chunk first
+      await this.redisService.deleteVectorChunks(urlHash)
+      if (chunks.length === 0) {
+        return false
+      }
+
+      const embeddings = await this.embeddingProvider.embed(chunks.map((chunk) => chunkSearchText(pageContent, chunk)))
+      await this.ensureIndex(embeddings[0].length)
+
+      const domain = extractDomain(pageContent.url)
+      const metadata = pageContent.metadata ? toSearchMetadata(pageContent.metadata) : undefined
+      const filterFields = getFilterFields(pageContent)
+
+      for (const [i, chunk] of chunks.entries()) {
+        await this.redisService.storeVectorChunk({
+          urlHash,
+          url: pageContent.url,
+          domain,
+          pageName: pageContent.pageName,
+          chunkIndex: chunk.index,
+          section: chunk.heading,
+          anchor: chunk.anchor,
+          content: chunk.content,
+          fetchedAt: pageContent.fetchedAt,
+          ...(metadata ? { metadata } : {}),
+          ...filterFields,
+          embeddingModel: this.embeddingProvider.model,
+          embedding: embeddings[i],
+        })
+      }
+
+      console.log("[v0] Vector index updated:", { url: pageContent.url, chunks: chunks.length })
+      return true
+    } catch (error) {
+      console.error("[v0] Vector indexing failed:", error)
+      return false
+    }
+  }
+
+  async removeIndexedPage(url: string, urlHash = hashUrl(url)): Promise<void> {
+    try {
+      await this.redisService.deleteVectorChunks(urlHash)
+    } catch (error) {
+      console.error("[v0] Vector index delete failed:", error)
+    }
+  }
+
+  async searchIndexedContent(query: string, filters: SearchFilters = {}): Promise<LangCacheSearchResult[]> {
+    try {
+      const [embedding] = await this.embeddingProvider.embed([query])
+      await this.ensureIndex(embedding.length)
+
+      const { model } = this.embeddingProvider
+      const found = await this.redisService.searchVectorChunks(embedding, VECTOR_SEARCH_K, filters)
+
+      // Vectors from another model of the same size are indexed but not comparable.
+      // Chunks stored before models were recorded are assumed to match.
+      const matches = found.filter(({ chunk }) => !chunk.embeddingModel || chunk.embeddingModel === model)
+      if (matches.length < found.length) {
+        console.warn("[v0] Skipped chunks embedded with a different model; re-index them:", {
+          model,
+          skipped: found.length - matches.length,
+        })
+      }
+
+      console.log("[v0] Vector search request:", { query, filters, resultCount: matches.length })
+
+      return groupByPage(
+        matches.map(({ chunk, distance }) => {
+          const snippet = buildSnippet(chunk.content, query)
+          return {
+            pageKey: chunk.urlHash,
+            result: {
+              id: `${chunk.urlHash}:${chunk.chunkIndex}`,
+              url: chunk.url,
+              pageName: chunk.pageName || "Untitled",
+              snippet: snippet.text,
+              highlights: snippet.highlights,
+              content: chunk.content,
+              // Cosine distance (0 to 2) mapped to a 0 to 1 similarity, like LangCache's
+              similarity: 1 - distance / 2,
+              prompt: query,
+              fetchedAt: chunk.fetchedAt || undefined,
+              metadata: chunk.metadata,
+              section: chunk.section || undefined,
+              anchor: chunk.anchor || undefined,
+              chunkIndex: chunk.chunkIndex,
+            },
+          }
+        }),
+      )
+    } catch (error) {
+      console.error("[v0] Vector search failed:", error)
+      return []
+    }
+  }
+
+  /**
+   * Nearest cached prompt for `model` and `template`, if it is at least
+   * `similarityThreshold` similar
+   */
+  async lookupResponse(
+    prompt: string,
+    model: string,
+    template: string,
+    similarityThreshold: number,
+  ): Promise<SemanticCacheMatch | null> {
+    try {
+      const [embedding] = await this.embeddingProvider.embed([prompt])
+      await this.ensureSemanticCacheIndex(embedding.length)
+
+      const match = await this.redisService.searchSemanticCache(
+        embedding,
+        model,
+        template,
+        this.embeddingProvider.model,
+      )
+      if (!match) return null
+
+      const similarity = 1 - match.distance / 2
+      return similarity >= similarityThreshold ? { ...match.entry, similarity } : null
+    } catch (error) {
+      console.error("[v0] Semantic cache lookup failed:", error)
+      return null
+    }
+  }
+
+  async storeResponse(entry: SemanticCacheEntry, ttlSeconds: number): Promise<void> {
+    try {
+      const [embedding] = await this.embeddingProvider.embed([entry.prompt])
+      await this.ensureSemanticCacheIndex(embedding.length)
+
+      // One entry per model, template and page; storing again replaces it
+      const id = hashContent(`${entry.model}\n${entry.template}\n${hashUrl(entry.url)}`).slice(0, 16)
+      await this.redisService.storeSemanticCacheEntry(id, entry, embedding, this.embeddingProvider.model, ttlSeconds)
+    } catch (error) {
+      console.error("[v0] Semantic cache store failed:", error)
+    }
+  }
+
+  private async ensureSemanticCacheIndex(dimensions: number): Promise<void> {
+    if (this.semanticCacheReady) return
+    await this.redisService.ensureSemanticCacheIndex(dimensions)
+    this.semanticCacheReady = true
+  }
+
+  private async ensureIndex(dimensions: number): Promise<void> {
+    if (this.indexReady) return
+
+    const { model } = this.embeddingProvider
+    const indexModel = await this.redisService.ensureVectorIndex(dimensions, model)
+    if (indexModel.model !== model || indexModel.dimensions !== dimensions) {
+      throw new Error(
+        `Embedding model mismatch: the vector index was built with ${indexModel.model} (${indexModel.dimensions} dimensions) ` +
+          `but ${model} (${dimensions} dimensions) is configured. Drop the index (FT.DROPINDEX idx:chunks DD) and re-process your domains.`,
+      )
+    }
+
+    this.indexReady = true
+  }
+}
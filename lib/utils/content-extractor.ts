@@ -0,0 +1,271 @@
+/**
+ * Readability-style main-content extraction. Blocks of prose are scored by
+ * text length and comma count, scores propagate to their ancestors, and the
+ * best-scoring container (discounted by link density) is taken as the page's
+ * main content. Boilerplate inside it is then pruned.
+ */
+
+export interface ContentExtractionOptions {
+  includeSelectors?: string[] // Use exactly these elements as the content (skips scoring)
+  excludeSelectors?: string[] // Always removed before extraction
+}
+
+// Removed before scoring regardless of score
+const BOILERPLATE_SELECTORS = [
+  "script",
+  "style",
+  "noscript",
+  "iframe",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  // Not "form": ASP.NET WebForms and similar sites wrap the whole body in one
+  "button",
+  "svg",
+  ".advertisement",
+  ".ads",
+  "#cookie-banner",
+  ".cookie-notice",
+  '[role="navigation"]',
+  '[role="complementary"]',
+  '[aria-hidden="true"]',
+]
+
+const UNLIKELY_CANDIDATES =
+  /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|foot|header|legends|menu|modal|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|newsletter|popup|promo|tags|toolbar|widget/i
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|post|entry/i
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story|docs?/i
+const NEGATIVE_CLASS =
+  /hidden|banner|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|ad-|advert/i
+
+// Elements whose text is scored
+const SCORABLE_TAGS = new Set(["P", "PRE", "TD", "BLOCKQUOTE", "LI", "DD"])
+
+// Containers pruned from the chosen content when they look like boilerplate
+const PRUNABLE_TAGS = ["div", "section", "ul", "ol", "table", "dl"]
+
+const MIN_PARAGRAPH_LENGTH = 25
+const MIN_TOP_SCORE = 20
+
+/**
+ * Return the element holding the main content of a document. The returned
+ * element may be detached from the document (when includeSelectors match
+ * several elements, or when siblings are merged into the result).
+ */
+export function extractMainContent(document: Document, options: ContentExtractionOptions = {}): Element {
+  const { includeSelectors = [], excludeSelectors = [] } = options
+  const body = document.body || document.documentElement
+
+  for (const selector of [...BOILERPLATE_SELECTORS, ...excludeSelectors]) {
+    safeQueryAll(body, selector).forEach((el) => el.remove())
+  }
+
+  // Explicit selectors win over scoring
+  if (includeSelectors.length > 0) {
+    const included = includeSelectors.flatMap((selector) => safeQueryAll(body, selector))
+    const topLevel = included.filter((el) => !included.some((other) => other !== el && other.contains(el)))
+
+    if (topLevel.length === 1) return topLevel[0]
+    if (topLevel.length > 1) {
+      const container = document.createElement("div")
+      topLevel.forEach((el) => container.appendChild(el))
+      return container
+    }
+  }
+
+  removeUnlikelyCandidates(body)
+
+  const topCandidate = findTopCandidate(body)
+  const fallback = document.querySelector("main") || document.querySelector("article") || body
+  if (!topCandidate) return fallback
+
+  const content = mergeSiblings(document, topCandidate.element, topCandidate.score)
+  pruneBoilerplate(content)
+  return content
+}
+
+/**
+ * Share of an element's text that sits inside links (0-1)
+ */
+export function getLinkDensity(element: Element): number {
+  const textLength = getText(element).length
+  if (textLength === 0) return 0
+
+  let linkLength = 0
+  element.querySelectorAll("a").forEach((link) => {
+    linkLength += getText(link).length
+  })
+
+  return linkLength / textLength
+}
+
+function removeUnlikelyCandidates(root: Element): void {
+  root.querySelectorAll("*").forEach((el) => {
+    if (["BODY", "HTML", "MAIN", "ARTICLE", "A"].includes(el.tagName)) return
+    if (el.closest("table, pre, code")) return
+
+    const matchString = `${el.className} ${el.id}`
+    if (UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString)) {
+      el.remove()
+    }
+  })
+}
+
+function findTopCandidate(root: Element): { element: Element; score: number } | null {
+  const scores = new Map<Element, number>()
+
+  const initialize = (el: Element) => {
+    if (!scores.has(el)) scores.set(el, getTagWeight(el) + getClassWeight(el))
+  }
+
+  root.querySelectorAll("*").forEach((el) => {
+    if (!SCORABLE_TAGS.has(el.tagName)) return
+
+    const text = getText(el)
+    if (text.length < MIN_PARAGRAPH_LENGTH) return
+
+    // 1 point for the block, 1 per comma, 1 per 100 characters (max 3)
+    const commas = text.split(/[,，]/).length - 1
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3)
+
+    let ancestor = el.parentElement
+    for (let level = 0; ancestor && level < 3; level++) {
+      initialize(ancestor)
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3
+      scores.set(ancestor, (scores.get(ancestor) || 0) + score / divider)
+      if (ancestor === root) break
+      ancestor = ancestor.parentElement
+    }
+  })
+
+  let best: { element: Element; score: number } | null = null
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - getLinkDensity(element))
+    if (!best || adjusted > best.score) {
+      best = { element, score: adjusted }
+    }
+  }
+
+  return best && best.score >= MIN_TOP_SCORE ? best : null
+}
+
+/**
+ * Pull in siblings of the top candidate that also look like content
+ * (e.g. an article split across several sibling divs)
+ */
+function mergeSiblings(document: Document, top: Element, topScore: number): Element {
+  const parent = top.parentElement
+  if (!parent || top.tagName === "BODY") return top
+
+  const threshold = Math.max(10, topScore * 0.2)
+  const siblings = Array.from(parent.children).filter((sibling) => {
+    if (sibling === top) return true
+
+    const text = getText(sibling)
+    const linkDensity = getLinkDensity(sibling)
+    const bonus = sibling.className && sibling.className === top.className ? topScore * 0.2 : 0
+
+    if (getClassWeight(sibling) + bonus >= threshold) return true
+    if (sibling.tagName === "P") {
+      return (text.length > 80 && linkDensity < 0.25) || (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text))
+    }
+    return false
+  })
+
+  if (siblings.length === 1) return top
+
+  const container = document.createElement("div")
+  siblings.forEach((sibling) => container.appendChild(sibling))
+  return container
+}
+
+/**
+ * Remove link-heavy or negatively weighted blocks left inside the content
+ */
+function pruneBoilerplate(content: Element): void {
+  for (const tag of PRUNABLE_TAGS) {
+    // Innermost first so a parent is judged after its children are cleaned
+    Array.from(content.querySelectorAll(tag))
+      .reverse()
+      .forEach((el) => {
+        if (el.closest("pre, code")) return
+
+        const text = getText(el)
+        const linkDensity = getLinkDensity(el)
+        const weight = getClassWeight(el)
+        const isBlock = tag === "div" || tag === "section"
+        const hasParagraphs = el.querySelector("p") !== null
+        const hasMedia = el.querySelector("img, picture, video, h1, h2, h3, h4, h5, h6, pre") !== null
+
+        if (weight < 0 && text.length < 500) {
+          el.remove()
+        } else if (linkDensity > 0.5 && text.length < 1000) {
+          el.remove()
+        } else if (isBlock && text.length < MIN_PARAGRAPH_LENGTH && !hasMedia) {
+          el.remove()
+        } else if (isBlock && !hasParagraphs && !hasMedia && linkDensity > 0.3) {
+          el.remove()
+        }
+      })
+  }
+}
+
+function getTagWeight(el: Element): number {
+  switch (el.tagName) {
+    case "ARTICLE":
+    case "MAIN":
+      return 10
+    case "DIV":
+    case "SECTION":
+      return 5
+    case "PRE":
+    case "TD":
+    case "BLOCKQUOTE":
+      return 3
+    case "ADDRESS":
+    case "OL":
+    case "UL":
+    case "DL":
+    case "DD":
+    case "DT":
+    case "LI":
+    case "FORM":
+      return -3
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6":
+    case "TH":
+      return -5
+    default:
+      return 0
+  }
+}
+
+function getClassWeight(el: Element): number {
+  let weight = 0
+
+  for (const value of [el.className, el.id]) {
+    if (typeof value !== "string" || !value) continue
+    if (NEGATIVE_CLASS.test(value)) weight -= 25
+    if (POSITIVE_CLASS.test(value)) weight += 25
+  }
+
+  return weight
+}
+
+function getText(el: Element): string {
+  return (el.textContent || "").replace(/\s+/g, " ").trim()
+}
+
+function safeQueryAll(root: Element, selector: string): Element[] {
+  try {
+    return Array.from(root.querySelectorAll(selector))
+  } catch {
+    console.warn("[v0] Ignoring invalid CSS selector:", selector)
+    return []
+  }
+}
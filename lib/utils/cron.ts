@@ -0,0 +1,154 @@
+/**
+ * Minimal 5-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Supports `*`, lists (`1,15`), ranges (`1-5`) and steps
+ * with `*` or a range (`0-30/10`). Day-of-week accepts 0-7 (0 and 7 are Sunday).
+ */
+
+interface CronFields {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  domRestricted: boolean
+  dowRestricted: boolean
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week
+]
+
+// Upper bound on search steps; every step advances at least one minute
+const MAX_ITERATIONS = 100000
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/")
+    const step = stepPart === undefined ? 1 : Number.parseInt(stepPart, 10)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`)
+    }
+
+    let start: number
+    let end: number
+    if (rangePart === "*") {
+      start = min
+      end = max
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-").map((value) => Number.parseInt(value, 10))
+      start = from
+      end = to
+    } else {
+      start = Number.parseInt(rangePart, 10)
+      end = stepPart === undefined ? start : max
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron value "${part}" (expected ${min}-${max})`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a cron expression, throwing on invalid input
+ */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index][0], FIELD_RANGES[index][1]),
+  )
+
+  // Normalize Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== "*",
+    dowRestricted: fields[4] !== "*",
+  }
+}
+
+/**
+ * Check whether a string is a valid cron expression
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the first time strictly after `from` that matches the expression
+ */
+export function getNextCronRun(expression: string, from: Date = new Date()): Date {
+  const cron = parseCron(expression)
+  const date = new Date(from.getTime())
+  date.setUTCSeconds(0, 0)
+  date.setUTCMinutes(date.getUTCMinutes() + 1)
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+
+    // Standard cron: when both day fields are restricted, either may match
+    const domMatch = cron.daysOfMonth.has(date.getUTCDate())
+    const dowMatch = cron.daysOfWeek.has(date.getUTCDay())
+    const dayMatch =
+      cron.domRestricted && cron.dowRestricted
+        ? domMatch || dowMatch
+        : cron.domRestricted
+          ? domMatch
+          : cron.dowRestricted
+            ? dowMatch
+            : true
+
+    if (!dayMatch) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0)
+      continue
+    }
+
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+      continue
+    }
+
+    return date
+  }
+
+  throw new Error(`Cron expression "${expression}" has no upcoming run`)
+}
@@ -1,10 +1,73 @@
 import crypto from "crypto"
+import { normalizeUrl } from "./url-normalizer"
 
 /**
- * Generate a consistent hash for a URL to use as Redis key
+ * Generate a consistent hash for a URL to use as Redis key. The URL is
+ * normalized first, so tracking parameters, "www.", trailing slashes and
+ * default ports do not produce separate keys.
  */
 export function hashUrl(url: string): string {
-  return crypto.createHash("sha256").update(url).digest("hex").substring(0, 16)
+  return crypto.createHash("sha256").update(normalizeUrl(url)).digest("hex").substring(0, 16)
+}
+
+/**
+ * Fingerprint page content so unchanged pages can be detected on re-fetch.
+ * Line endings and whitespace runs are normalized first, so formatting noise
+ * from the scraper does not register as a change.
+ */
+export function hashContent(markdown: string): string {
+  const normalized = markdown.replace(/\r\n?/g, "\n").replace(/[ \t]+/g, " ").replace(/\s*\n\s*/g, "\n").trim()
+  return crypto.createHash("sha256").update(normalized).digest("hex")
+}
+
+/**
+ * 64-bit SimHash of page content as 16 hex characters. Pages whose
+ * fingerprints differ in only a few bits are near-duplicates. Lines that
+ * name the page's own URL are ignored so copies at different URLs match.
+ */
+export function simhashContent(markdown: string): string {
+  const words = markdown
+    .replace(/^\*\*URL:\*\*.*$/gm, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+
+  // Word 3-grams capture ordering, so shuffled boilerplate does not collide
+  const shingles = words.length < 3 ? [words.join(" ")] : words.slice(2).map((_, i) => words.slice(i, i + 3).join(" "))
+  const weights = new Array<number>(64).fill(0)
+
+  for (const shingle of shingles) {
+    const digest = crypto.createHash("md5").update(shingle).digest()
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (digest[bit >> 3] >> (bit & 7)) & 1
+      weights[bit] += set ? 1 : -1
+    }
+  }
+
+  const bytes = Buffer.alloc(8)
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) bytes[bit >> 3] |= 1 << (bit & 7)
+  }
+  return bytes.toString("hex")
+}
+
+/**
+ * Number of differing bits between two simhashContent() fingerprints
+ */
+export function hammingDistance(a: string, b: string): number {
+  const left = Buffer.from(a, "hex")
+  const right = Buffer.from(b, "hex")
+  let distance = 0
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    let diff = (left[i] ?? 0) ^ (right[i] ?? 0)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+
+  return distance
 }
 
 /**
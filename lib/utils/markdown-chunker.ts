@@ -0,0 +1,164 @@
+/**
+ * Heading-aware markdown chunking for search indexing. A page is split at its
+ * headings first; sections longer than `maxChars` are split again at paragraph
+ * (then sentence) boundaries, and each piece repeats the tail of the previous
+ * one so a match near a boundary is not lost.
+ */
+
+export interface MarkdownChunk {
+  index: number
+  heading: string // Nearest heading above the chunk ("" before the first heading)
+  headingPath: string[] // Enclosing headings, outermost first
+  anchor: string // Slug of `heading`, usable as a URL fragment
+  content: string
+}
+
+export interface ChunkOptions {
+  maxChars?: number
+  overlap?: number // Characters carried over from the previous chunk of the same section
+}
+
+interface Section {
+  headingPath: string[]
+  body: string
+}
+
+/**
+ * Turn a heading into a URL fragment the way most static site generators do
+ */
+export function slugifyHeading(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1") // Markdown links keep their text
+    .replace(/[`*_~]/g, "")
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .trim()
+    .replace(/\s+/g, "-")
+}
+
+export function chunkMarkdown(markdown: string, options: ChunkOptions = {}): MarkdownChunk[] {
+  const { maxChars = 900, overlap = 150 } = options
+  const chunks: MarkdownChunk[] = []
+  const slugCounts = new Map<string, number>()
+
+  for (const section of splitSections(markdown)) {
+    const heading = section.headingPath[section.headingPath.length - 1] || ""
+
+    // Repeated headings get "-1", "-2", ... suffixes, as generated ids usually do
+    const slug = slugifyHeading(heading)
+    const seen = slugCounts.get(slug) || 0
+    slugCounts.set(slug, seen + 1)
+    const anchor = slug && seen > 0 ? `${slug}-${seen}` : slug
+
+    for (const content of splitSection(section.body, maxChars, overlap)) {
+      chunks.push({
+        index: chunks.length,
+        heading,
+        headingPath: section.headingPath,
+        anchor,
+        content,
+      })
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Split at ATX headings (`#` to `######`), ignoring lines inside code fences.
+ * The `**URL:**` line PageScraper adds under the title is dropped.
+ */
+function splitSections(markdown: string): Section[] {
+  const sections: Section[] = []
+  const path: Array<{ level: number; text: string }> = []
+  let lines: string[] = []
+  let inFence = false
+
+  const flush = () => {
+    const body = lines.join("\n").trim()
+    if (body) sections.push({ headingPath: path.map((entry) => entry.text), body })
+    lines = []
+  }
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence
+
+    const match = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+    if (match) {
+      flush()
+      const level = match[1].length
+      while (path.length > 0 && path[path.length - 1].level >= level) path.pop()
+      path.push({ level, text: match[2].trim() })
+      continue
+    }
+
+    if (/^\*\*URL:\*\*/.test(line)) continue
+    lines.push(line)
+  }
+  flush()
+
+  return sections
+}
+
+function splitSection(body: string, maxChars: number, overlap: number): string[] {
+  if (body.length <= maxChars) return [body]
+
+  const pieces: string[] = []
+  let current = ""
+
+  for (const block of splitBlocks(body, maxChars)) {
+    if (current && current.length + block.length + 2 > maxChars) {
+      pieces.push(current)
+      const carried = tail(current, overlap)
+      current = carried.length + block.length + 2 <= maxChars ? carried : ""
+    }
+    current = current ? `${current}\n\n${block}` : block
+  }
+  if (current) pieces.push(current)
+
+  return pieces
+}
+
+/**
+ * Paragraphs, with paragraphs longer than `maxChars` broken at sentence ends
+ * (or hard-cut when a single sentence is still too long)
+ */
+function splitBlocks(body: string, maxChars: number): string[] {
+  const blocks: string[] = []
+
+  for (const paragraph of body.split(/\n{2,}/).map((text) => text.trim())) {
+    if (!paragraph) continue
+    if (paragraph.length <= maxChars) {
+      blocks.push(paragraph)
+      continue
+    }
+
+    let current = ""
+    for (const sentence of paragraph.match(/[^.!?\n]+[.!?]*\s*|\n/g) || [paragraph]) {
+      if (current && current.length + sentence.length > maxChars) {
+        blocks.push(current.trim())
+        current = ""
+      }
+      current += sentence
+      while (current.length > maxChars) {
+        blocks.push(current.slice(0, maxChars))
+        current = current.slice(maxChars)
+      }
+    }
+    if (current.trim()) blocks.push(current.trim())
+  }
+
+  return blocks
+}
+
+/**
+ * The last `length` characters of `text`, starting at a word boundary
+ */
+function tail(text: string, length: number): string {
+  if (length <= 0) return ""
+  if (text.length <= length) return text
+
+  const slice = text.slice(-length)
+  const space = slice.search(/\s/)
+  return space === -1 ? slice : slice.slice(space + 1)
+}
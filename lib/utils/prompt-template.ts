@@ -0,0 +1,65 @@
+import type { PageContent } from "@/lib/redis"
+import { extractDomain } from "@/lib/utils/hash"
+
+/**
+ * Prompt template rendering. `{{name}}` placeholders are replaced with page
+ * fields; `{{metadata.path}}` reads structured data (e.g. `{{metadata.title}}`,
+ * `{{metadata.openGraph.site_name}}`). Missing values render as "".
+ */
+
+// Page fields available to every template, besides metadata.*. `pageData` is
+// the URL and content as a JSON object, as the original built-in prompt had it.
+export const TEMPLATE_VARIABLES = ["pageName", "url", "domain", "content", "fetchedAt", "pageData"] as const
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.:-]+)\s*\}\}/g
+
+/**
+ * Distinct variable names used in a template
+ */
+export function getTemplateVariables(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1])))
+}
+
+/**
+ * Variables a template uses that no page provides
+ */
+export function getUnknownVariables(template: string): string[] {
+  return getTemplateVariables(template).filter(
+    (name) =>
+      !(TEMPLATE_VARIABLES as readonly string[]).includes(name) && name !== "metadata" && !name.startsWith("metadata."),
+  )
+}
+
+export function renderTemplate(template: string, pageContent: PageContent): string {
+  const fields: Record<(typeof TEMPLATE_VARIABLES)[number], string> = {
+    pageName: pageContent.pageName,
+    url: pageContent.url,
+    domain: extractDomain(pageContent.url),
+    content: pageContent.markdown,
+    fetchedAt: pageContent.fetchedAt,
+    pageData: JSON.stringify({ url: pageContent.url, content: pageContent.markdown }, null, 2),
+  }
+
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => {
+    if (name in fields) return fields[name as keyof typeof fields]
+    if (name === "metadata") return formatValue(pageContent.metadata)
+    if (name.startsWith("metadata.")) {
+      let value: unknown = pageContent.metadata
+      for (const key of name.slice("metadata.".length).split(".")) {
+        value = value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined
+      }
+      return formatValue(value)
+    }
+    return ""
+  })
+}
+
+/**
+ * Lists of plain values are joined with commas; other objects become JSON
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return ""
+  if (Array.isArray(value) && value.every((item) => typeof item !== "object")) return value.join(", ")
+  if (typeof value === "object") return JSON.stringify(value, null, 2)
+  return String(value)
+}
@@ -0,0 +1,164 @@
+export interface HostRateLimitOptions {
+  requestsPerSecond?: number // Token refill rate per host (Infinity disables rate limiting)
+  burst?: number // Bucket capacity per host
+  maxConcurrent?: number // Max in-flight requests per host
+}
+
+interface HostState {
+  tokens: number
+  lastRefill: number
+  active: number
+  minInterval: number
+  lastRequest: number
+}
+
+/**
+ * Per-host token-bucket rate limiter with a per-host concurrency cap.
+ */
+export class HostRateLimiter {
+  private hosts = new Map<string, HostState>()
+  private requestsPerSecond: number
+  private burst: number
+  private maxConcurrent: number
+
+  constructor(options: HostRateLimitOptions = {}) {
+    this.requestsPerSecond = options.requestsPerSecond ?? 1
+    this.burst = Math.max(1, options.burst ?? 1)
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 2)
+  }
+
+  /**
+   * Enforce a minimum delay between requests to a host (e.g. robots.txt Crawl-delay)
+   */
+  setMinInterval(host: string, ms: number): void {
+    this.getState(host).minInterval = Math.max(0, ms)
+  }
+
+  /**
+   * Wait until a request to `host` is allowed. Returns a release callback that
+   * must be called once the request finishes.
+   */
+  async acquire(host: string): Promise<() => void> {
+    const state = this.getState(host)
+
+    while (true) {
+      const wait = this.tryTake(state)
+      if (wait === 0) break
+      await new Promise((resolve) => setTimeout(resolve, wait))
+    }
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      state.active--
+    }
+  }
+
+  /**
+   * Take a token and a concurrency slot if both are available.
+   * Returns 0 on success, otherwise the number of ms to wait before retrying.
+   */
+  private tryTake(state: HostState): number {
+    const now = Date.now()
+
+    if (Number.isFinite(this.requestsPerSecond)) {
+      const elapsed = (now - state.lastRefill) / 1000
+      state.tokens = Math.min(this.burst, state.tokens + elapsed * this.requestsPerSecond)
+      state.lastRefill = now
+    }
+
+    if (state.active >= this.maxConcurrent) {
+      return 50
+    }
+
+    const sinceLast = now - state.lastRequest
+    if (sinceLast < state.minInterval) {
+      return state.minInterval - sinceLast
+    }
+
+    if (Number.isFinite(this.requestsPerSecond)) {
+      if (state.tokens < 1) {
+        return Math.max(1, Math.ceil(((1 - state.tokens) / this.requestsPerSecond) * 1000))
+      }
+      state.tokens -= 1
+    }
+
+    state.active++
+    state.lastRequest = now
+    return 0
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host)
+    if (!state) {
+      state = {
+        tokens: this.burst,
+        lastRefill: Date.now(),
+        active: 0,
+        minInterval: 0,
+        lastRequest: 0,
+      }
+      this.hosts.set(host, state)
+    }
+    return state
+  }
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight.
+ * Results keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await worker(items[index], index)
+    }
+  })
+
+  await Promise.all(runners)
+  return results
+}
+
+/**
+ * Reorder URLs round-robin by host so a concurrency pool does not spend all
+ * of its slots waiting on a single host.
+ */
+export function interleaveByHost(urls: string[]): string[] {
+  const byHost = new Map<string, string[]>()
+  for (const url of urls) {
+    const host = getHost(url)
+    const list = byHost.get(host) || []
+    list.push(url)
+    byHost.set(host, list)
+  }
+
+  const queues = Array.from(byHost.values())
+  const interleaved: string[] = []
+  for (let round = 0; interleaved.length < urls.length; round++) {
+    for (const queue of queues) {
+      if (round < queue.length) interleaved.push(queue[round])
+    }
+  }
+
+  return interleaved
+}
+
+/**
+ * Get the host of a URL, falling back to the raw string for invalid URLs
+ */
+export function getHost(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
@@ -1,28 +1,251 @@
 /**
- * Parse robots.txt to find sitemap URLs
+ * robots.txt parsing and matching (RFC 9309 with the common Crawl-delay extension)
  */
-export async function findSitemapInRobots(domain: string): Promise<string[]> {
+
+export interface RobotsRule {
+  allow: boolean
+  pattern: string
+}
+
+export interface RobotsGroup {
+  userAgents: string[]
+  rules: RobotsRule[]
+  crawlDelay?: number // seconds
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[]
+  sitemaps: string[]
+  disallowAll?: boolean // robots.txt was unreachable (5xx / network error)
+}
+
+export interface RobotsCheck {
+  allowed: boolean
+  crawlDelay?: number // seconds
+  reason?: string
+  unreachable?: boolean // robots.txt could not be fetched; the URL may be allowed later
+}
+
+// Product token we match against User-agent lines
+export const ROBOTS_USER_AGENT = process.env.ROBOTS_USER_AGENT || "LangcachyBot"
+
+const ROBOTS_CACHE_TTL = 60 * 60 * 1000 // 1 hour
+// An unreachable robots.txt is retried soon, so an outage does not block a site for an hour
+const ROBOTS_FAILURE_TTL = 60 * 1000
+const ROBOTS_FETCH_TIMEOUT = Number(process.env.ROBOTS_FETCH_TIMEOUT || 10000)
+const robotsCache = new Map<string, { robots: Promise<RobotsTxt>; fetchedAt: number }>()
+
+/**
+ * Parse robots.txt content into user-agent groups
+ */
+export function parseRobotsTxt(robotsText: string): RobotsTxt {
+  const groups: RobotsGroup[] = []
+  const sitemaps: string[] = []
+  let current: RobotsGroup | null = null
+  let lastWasUserAgent = false
+
+  for (const rawLine of robotsText.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim()
+    if (!line) continue
+
+    const colonIndex = line.indexOf(":")
+    if (colonIndex === -1) continue
+
+    const field = line.substring(0, colonIndex).trim().toLowerCase()
+    const value = line.substring(colonIndex + 1).trim()
+
+    switch (field) {
+      case "user-agent":
+        // Consecutive User-agent lines share one group
+        if (!current || !lastWasUserAgent) {
+          current = { userAgents: [], rules: [] }
+          groups.push(current)
+        }
+        current.userAgents.push(value.toLowerCase())
+        lastWasUserAgent = true
+        continue
+      case "allow":
+      case "disallow":
+        // An empty Disallow allows everything, so it adds no rule
+        if (current && value) {
+          current.rules.push({ allow: field === "allow", pattern: value })
+        }
+        break
+      case "crawl-delay": {
+        const delay = Number.parseFloat(value)
+        if (current && Number.isFinite(delay) && delay >= 0) {
+          current.crawlDelay = delay
+        }
+        break
+      }
+      case "sitemap":
+        if (value) sitemaps.push(value)
+        break
+    }
+
+    lastWasUserAgent = false
+  }
+
+  return { groups, sitemaps }
+}
+
+/**
+ * Merge all groups that apply to a user agent. The most specific matching
+ * User-agent token wins; `*` is used only when nothing else matches.
+ */
+export function getMatchingGroup(robots: RobotsTxt, userAgent = ROBOTS_USER_AGENT): RobotsGroup | null {
+  const agent = userAgent.toLowerCase()
+  let bestLength = 0
+  let matched: RobotsGroup[] = []
+
+  for (const group of robots.groups) {
+    for (const token of group.userAgents) {
+      if (token === "*" || !agent.includes(token)) continue
+
+      if (token.length > bestLength) {
+        bestLength = token.length
+        matched = [group]
+      } else if (token.length === bestLength && !matched.includes(group)) {
+        matched.push(group)
+      }
+    }
+  }
+
+  if (matched.length === 0) {
+    matched = robots.groups.filter((group) => group.userAgents.includes("*"))
+  }
+
+  if (matched.length === 0) return null
+
+  const crawlDelays = matched.map((group) => group.crawlDelay).filter((delay): delay is number => delay !== undefined)
+
+  return {
+    userAgents: matched.flatMap((group) => group.userAgents),
+    rules: matched.flatMap((group) => group.rules),
+    crawlDelay: crawlDelays.length > 0 ? Math.max(...crawlDelays) : undefined,
+  }
+}
+
+/**
+ * Test a robots.txt path pattern (supports `*` wildcards and a trailing `$` anchor)
+ */
+export function matchesRobotsPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$")
+  const body = anchored ? pattern.slice(0, -1) : pattern
+  const regexSource = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*")
+
+  return new RegExp(`^${regexSource}${anchored ? "$" : ""}`).test(path)
+}
+
+/**
+ * Check a URL against parsed robots.txt. The longest matching rule wins and
+ * Allow wins ties.
+ */
+export function checkRobotsRules(robots: RobotsTxt, url: string, userAgent = ROBOTS_USER_AGENT): RobotsCheck {
+  if (robots.disallowAll) {
+    return { allowed: false, unreachable: true, reason: "robots.txt unreachable; assuming full disallow" }
+  }
+
+  const group = getMatchingGroup(robots, userAgent)
+  if (!group) return { allowed: true }
+
+  let path: string
   try {
-    const baseUrl = domain.startsWith("http") ? domain : `https://${domain}`
-    const robotsUrl = `${new URL(baseUrl).origin}/robots.txt`
-
-    const response = await fetch(robotsUrl)
-    if (!response.ok) return []
-
-    const robotsText = await response.text()
-    const sitemapUrls: string[] = []
-
-    // Parse robots.txt for Sitemap: directives
-    const lines = robotsText.split("\n")
-    for (const line of lines) {
-      const trimmed = line.trim()
-      if (trimmed.toLowerCase().startsWith("sitemap:")) {
-        const url = trimmed.substring(8).trim()
-        if (url) sitemapUrls.push(url)
+    const urlObj = new URL(url)
+    path = `${urlObj.pathname}${urlObj.search}`
+  } catch {
+    return { allowed: true, crawlDelay: group.crawlDelay }
+  }
+
+  // /robots.txt itself is always allowed
+  if (path === "/robots.txt") return { allowed: true, crawlDelay: group.crawlDelay }
+
+  let best: RobotsRule | null = null
+  for (const rule of group.rules) {
+    if (!matchesRobotsPattern(rule.pattern, path)) continue
+
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)
+    ) {
+      best = rule
+    }
+  }
+
+  if (best && !best.allow) {
+    return {
+      allowed: false,
+      crawlDelay: group.crawlDelay,
+      reason: `Disallowed by robots.txt (Disallow: ${best.pattern})`,
+    }
+  }
+
+  return { allowed: true, crawlDelay: group.crawlDelay }
+}
+
+/**
+ * Fetch and parse robots.txt for a domain or URL (cached per origin; failures
+ * only briefly)
+ */
+export async function fetchRobotsTxt(domain: string): Promise<RobotsTxt> {
+  const baseUrl = domain.startsWith("http") ? domain : `https://${domain}`
+  const origin = new URL(baseUrl).origin
+
+  const cached = robotsCache.get(origin)
+  if (cached) {
+    const ttl = (await cached.robots).disallowAll ? ROBOTS_FAILURE_TTL : ROBOTS_CACHE_TTL
+    if (Date.now() - cached.fetchedAt < ttl) {
+      return await cached.robots
+    }
+  }
+
+  const robots = (async (): Promise<RobotsTxt> => {
+    try {
+      const response = await fetch(`${origin}/robots.txt`, { signal: AbortSignal.timeout(ROBOTS_FETCH_TIMEOUT) })
+
+      // 4xx means "no restrictions"; 5xx means the site is unavailable
+      if (response.status >= 400 && response.status < 500) {
+        return { groups: [], sitemaps: [] }
+      }
+      if (!response.ok) {
+        return { groups: [], sitemaps: [], disallowAll: true }
       }
+
+      return parseRobotsTxt(await response.text())
+    } catch (error) {
+      console.error("[v0] Failed to fetch robots.txt:", origin, error)
+      return { groups: [], sitemaps: [], disallowAll: true }
     }
+  })()
+
+  robotsCache.set(origin, { robots, fetchedAt: Date.now() })
+  return await robots
+}
 
-    return sitemapUrls
+/**
+ * Check whether a URL may be crawled according to its site's robots.txt
+ */
+export async function checkRobots(url: string, userAgent = ROBOTS_USER_AGENT): Promise<RobotsCheck> {
+  try {
+    const robots = await fetchRobotsTxt(url)
+    return checkRobotsRules(robots, url, userAgent)
+  } catch {
+    // Invalid URL; let the caller's own validation handle it
+    return { allowed: true }
+  }
+}
+
+/**
+ * Parse robots.txt to find sitemap URLs
+ */
+export async function findSitemapInRobots(domain: string): Promise<string[]> {
+  try {
+    const robots = await fetchRobotsTxt(domain)
+    return robots.sitemaps
   } catch {
     return []
   }
@@ -0,0 +1,143 @@
+import type { LangCacheSearchResult, SearchResultMetadata } from "@/lib/services/langcache-service"
+import type { SearchFilters } from "@/lib/services/search-backend"
+import type { PageContent, PageMetadata } from "@/lib/redis"
+import { extractDomain } from "./hash"
+import { chunkMarkdown, type MarkdownChunk } from "./markdown-chunker"
+
+// Chunking, metadata, filtering and grouping shared by the search backends (lib/services/search-backend.ts)
+
+// Each page is indexed as several entries of roughly this many characters
+const CHUNK_SIZE = Number(process.env.SEARCH_CHUNK_SIZE || 900)
+const CHUNK_OVERLAP = Number(process.env.SEARCH_CHUNK_OVERLAP || 150)
+const MAX_CHUNKS_PER_PAGE = Number(process.env.SEARCH_MAX_CHUNKS || 50)
+
+/**
+ * Split a page into the chunks every backend indexes
+ */
+export function chunkPage(pageContent: PageContent): MarkdownChunk[] {
+  return chunkMarkdown(pageContent.markdown.trim(), { maxChars: CHUNK_SIZE, overlap: CHUNK_OVERLAP }).slice(
+    0,
+    MAX_CHUNKS_PER_PAGE,
+  )
+}
+
+/**
+ * Text that represents a chunk in the index. The page name and enclosing
+ * headings give short chunks enough context to match.
+ */
+export function chunkSearchText(pageContent: PageContent, chunk: MarkdownChunk): string {
+  const pageName = (pageContent.pageName || pageContent.url || "Untitled Page").trim()
+  const context = [pageName, ...chunk.headingPath.filter((heading) => heading !== pageName)].join(" › ")
+  return `${context}\n\n${chunk.content}`.trim()
+}
+
+/**
+ * Pick the metadata fields worth carrying in a search entry
+ */
+export function toSearchMetadata(metadata: PageMetadata): SearchResultMetadata {
+  const { description, canonicalUrl, language, author, publishedAt, modifiedAt, siteName, type, images } = metadata
+  return { description, canonicalUrl, language, author, publishedAt, modifiedAt, siteName, type, image: images?.[0] }
+}
+
+/**
+ * Collapse chunk-level matches into one result per page (keyed by `pageKey`),
+ * keeping the best-matching chunk and counting the rest
+ */
+export function groupByPage(
+  matches: Array<{ pageKey: string; result: LangCacheSearchResult }>,
+): LangCacheSearchResult[] {
+  const pages = new Map<string, LangCacheSearchResult>()
+
+  for (const { pageKey, result } of matches) {
+    const existing = pages.get(pageKey)
+    const matchedChunks = (existing?.matchedChunks || 0) + 1
+
+    if (existing && result.similarity <= existing.similarity) {
+      existing.matchedChunks = matchedChunks
+      continue
+    }
+    pages.set(pageKey, { ...result, matchedChunks })
+  }
+
+  return Array.from(pages.values()).sort((a, b) => b.similarity - a.similarity)
+}
+
+/**
+ * "en-US" -> "en"; language filters match on the primary subtag
+ */
+export function normalizeLanguage(language?: string): string | undefined {
+  const primary = language?.trim().split(/[-_]/)[0].toLowerCase()
+  return primary || undefined
+}
+
+/**
+ * Filterable fields of a page, as stored alongside its search entries
+ */
+export function getFilterFields(pageContent: PageContent): { path: string; language?: string; pageType?: string } {
+  let path = "/"
+  try {
+    path = new URL(pageContent.url).pathname
+  } catch {
+    // Keep the root path for unparseable URLs
+  }
+
+  return {
+    path,
+    language: normalizeLanguage(pageContent.metadata?.language),
+    pageType: pageContent.metadata?.type?.toLowerCase(),
+  }
+}
+
+/**
+ * The path facet value for a URL path: its first segment, e.g. "/docs"
+ */
+export function getPathFacet(pathname: string): string {
+  const segment = pathname.split("/").filter(Boolean)[0]
+  return segment ? `/${segment}` : "/"
+}
+
+/**
+ * Facet values with their counts, most common first
+ */
+export function sortFacetCounts(counts: Map<string, number>): Array<{ value: string; count: number }> {
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+export function hasSearchFilters(filters: SearchFilters = {}): boolean {
+  return Object.values(filters).some((value) => Boolean(value))
+}
+
+/**
+ * Check a result against filters, for backends that cannot filter natively
+ */
+export function matchesSearchFilters(result: LangCacheSearchResult, filters: SearchFilters = {}): boolean {
+  const { domain, pathPrefix, fetchedAfter, fetchedBefore, language, type } = filters
+
+  if (domain && extractDomain(result.url) !== extractDomain(`https://${domain.replace(/^https?:\/\//, "")}`)) {
+    return false
+  }
+
+  if (pathPrefix) {
+    let path = ""
+    try {
+      path = new URL(result.url).pathname
+    } catch {
+      return false
+    }
+    if (!path.startsWith(pathPrefix.startsWith("/") ? pathPrefix : `/${pathPrefix}`)) return false
+  }
+
+  if (fetchedAfter || fetchedBefore) {
+    const fetchedAt = result.fetchedAt ? Date.parse(result.fetchedAt) : Number.NaN
+    if (Number.isNaN(fetchedAt)) return false
+    if (fetchedAfter && fetchedAt < Date.parse(fetchedAfter)) return false
+    if (fetchedBefore && fetchedAt > Date.parse(fetchedBefore)) return false
+  }
+
+  if (language && normalizeLanguage(result.metadata?.language) !== normalizeLanguage(language)) return false
+  if (type && result.metadata?.type?.toLowerCase() !== type.toLowerCase()) return false
+
+  return true
+}
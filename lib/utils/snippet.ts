@@ -0,0 +1,159 @@
+/**
+ * Query-aware snippets: the passage of a text that covers the most query terms,
+ * with the character ranges of the matched words so callers can highlight them
+ * without sending markup.
+ */
+
+export interface SnippetHighlight {
+  start: number // Offset into the snippet text
+  end: number // Exclusive
+}
+
+export interface Snippet {
+  text: string
+  highlights: SnippetHighlight[]
+}
+
+interface TermMatch {
+  start: number
+  end: number
+  term: number // Index into the query terms
+}
+
+// Words too common to be worth highlighting
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "do",
+  "for",
+  "from",
+  "how",
+  "i",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "what",
+  "when",
+  "where",
+  "which",
+  "who",
+  "why",
+  "with",
+])
+
+// Characters shown before the first match of a passage
+const LEAD_CHARS = 40
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu
+
+/**
+ * Crude suffix stripping so "caching", "caches" and "cached" match "cache"
+ */
+function stem(word: string): string {
+  const lower = word.toLowerCase()
+  return lower.length > 4 ? lower.replace(/(ing|ed|es|s|ly)$/, "") : lower
+}
+
+function stemsMatch(word: string, term: string): boolean {
+  if (word === term) return true
+  // Prefixes only count for longer stems, so "car" does not match "card"
+  return Math.min(word.length, term.length) >= 4 && (word.startsWith(term) || term.startsWith(word))
+}
+
+/**
+ * Distinct, stemmed query words, without stop words
+ */
+export function getQueryTerms(query: string): string[] {
+  const words = (query.match(WORD_PATTERN) || []).map((word) => word.toLowerCase())
+  return Array.from(new Set(words.filter((word) => !STOP_WORDS.has(word)).map(stem)))
+}
+
+function findTermMatches(text: string, terms: string[]): TermMatch[] {
+  const matches: TermMatch[] = []
+  if (terms.length === 0) return matches
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = stem(match[0])
+    const term = terms.findIndex((candidate) => stemsMatch(word, candidate))
+    if (term !== -1) {
+      matches.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, term })
+    }
+  }
+
+  return matches
+}
+
+/**
+ * The window of at most `maxChars` characters of `text` that contains the most
+ * distinct query terms (then the most matches), cut at word or sentence
+ * boundaries. Falls back to the start of the text when no term occurs in it.
+ */
+export function buildSnippet(text: string, query: string, maxChars = 280): Snippet {
+  const source = text.trim()
+  const matches = findTermMatches(source, getQueryTerms(query))
+
+  if (source.length <= maxChars) {
+    return { text: source, highlights: matches.map(({ start, end }) => ({ start, end })) }
+  }
+
+  // Leave room for the ellipses
+  const windowChars = maxChars - 6
+
+  let start = 0
+  let bestScore = -1
+  for (const anchor of matches) {
+    const windowStart = Math.max(0, anchor.start - LEAD_CHARS)
+    const inWindow = matches.filter((match) => match.start >= windowStart && match.end <= windowStart + windowChars)
+    const score = new Set(inWindow.map((match) => match.term)).size * 1000 + inWindow.length
+    if (score > bestScore) {
+      bestScore = score
+      start = windowStart
+    }
+  }
+  // Near the end of the text, show more context before the match instead
+  start = Math.min(start, source.length - windowChars)
+
+  if (start > 0) {
+    const firstMatch = matches.find((match) => match.start >= start)
+    const lead = source.slice(start, firstMatch?.start ?? start)
+    // Start at the first sentence in the lead if there is one, otherwise after a partial word
+    const sentence = lead.search(/[.!?]\s|\n/)
+    if (sentence !== -1) {
+      start += sentence + 1
+    } else if (/\S/.test(source[start - 1])) {
+      const space = lead.search(/\s/)
+      if (space !== -1) start += space
+    }
+    while (start < source.length && /\s/.test(source[start])) start++
+  }
+
+  let end = Math.min(source.length, start + windowChars)
+  if (end < source.length) {
+    const space = source.slice(start, end).search(/\s\S*$/)
+    if (space > windowChars / 2) end = start + space
+  }
+
+  const prefix = start > 0 ? "..." : ""
+  const suffix = end < source.length ? "..." : ""
+
+  return {
+    text: `${prefix}${source.slice(start, end).trimEnd()}${suffix}`,
+    highlights: matches
+      .filter((match) => match.start >= start && match.end <= end)
+      .map((match) => ({ start: match.start - start + prefix.length, end: match.end - start + prefix.length })),
+  }
+}
@@ -0,0 +1,284 @@
+import type { MicrodataItem, PageMetadata } from "@/lib/redis"
+
+/**
+ * Structured data extraction from an HTML document: standard meta tags,
+ * OpenGraph, JSON-LD and schema.org microdata, merged into one PageMetadata.
+ * Run this before content cleanup, which strips <script> and <head>-like elements.
+ */
+
+// Caps on stored raw structured data so one page cannot bloat its Redis entry
+const MAX_JSON_LD_NODES = 20
+const MAX_MICRODATA_ITEMS = 20
+const MAX_IMAGES = 10
+
+// JSON-LD types that describe the site rather than the page itself
+const SECONDARY_TYPES = new Set([
+  "WebSite",
+  "WebPage",
+  "Organization",
+  "BreadcrumbList",
+  "SiteNavigationElement",
+  "SearchAction",
+  "ImageObject",
+  "Person",
+])
+
+export function extractStructuredData(document: Document, url: string): PageMetadata {
+  const openGraph = extractOpenGraph(document)
+  const jsonLd = extractJsonLd(document)
+  const microdata = extractMicrodata(document, url)
+  const primary = getPrimaryJsonLdNode(jsonLd)
+  const microItem = microdata[0]
+
+  const meta = (selector: string) => document.querySelector(selector)?.getAttribute("content")?.trim() || undefined
+  const microValue = (name: string) => {
+    const value = microItem?.properties[name]?.[0]
+    return typeof value === "string" ? value : undefined
+  }
+
+  const canonicalHref = document.querySelector('link[rel="canonical"]')?.getAttribute("href") || openGraph.url
+
+  const keywords = [
+    ...(meta('meta[name="keywords"]')?.split(",") || []),
+    ...toStringList(primary?.keywords).flatMap((keyword) => keyword.split(",")),
+  ]
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+
+  const images = [
+    ...getAllMeta(document, 'meta[property="og:image"], meta[property="og:image:url"]'),
+    meta('meta[name="twitter:image"]'),
+    ...toImageList(primary?.image),
+    microValue("image"),
+  ]
+    .map((image) => resolveUrl(image, url))
+    .filter((image): image is string => Boolean(image))
+
+  const metadata: PageMetadata = {
+    title: openGraph.title || stringValue(primary?.headline) || stringValue(primary?.name) || getTitle(document),
+    description:
+      meta('meta[name="description"]') || openGraph.description || stringValue(primary?.description) || undefined,
+    keywords: keywords.length > 0 ? Array.from(new Set(keywords)) : undefined,
+    canonicalUrl: resolveUrl(canonicalHref, url),
+    language: normalizeLanguage(
+      document.documentElement.getAttribute("lang") ||
+        meta('meta[http-equiv="content-language"], meta[http-equiv="Content-Language"]') ||
+        stringValue(primary?.inLanguage) ||
+        openGraph.locale,
+    ),
+    author:
+      meta('meta[name="author"]') ||
+      meta('meta[property="article:author"]') ||
+      toPersonName(primary?.author) ||
+      microAuthor(microItem),
+    publishedAt: toIsoDate(
+      meta('meta[property="article:published_time"]') ||
+        stringValue(primary?.datePublished) ||
+        microValue("datePublished") ||
+        meta('meta[name="date"]'),
+    ),
+    modifiedAt: toIsoDate(
+      meta('meta[property="article:modified_time"]') ||
+        openGraph.updated_time ||
+        stringValue(primary?.dateModified) ||
+        microValue("dateModified"),
+    ),
+    siteName: openGraph.site_name || stringValue(getNodeOfType(jsonLd, "WebSite")?.name),
+    type: getJsonLdType(primary) || getSchemaTypeName(microItem?.type) || openGraph.type,
+    images: images.length > 0 ? Array.from(new Set(images)).slice(0, MAX_IMAGES) : undefined,
+    openGraph: Object.keys(openGraph).length > 0 ? openGraph : undefined,
+    jsonLd: jsonLd.length > 0 ? jsonLd.slice(0, MAX_JSON_LD_NODES) : undefined,
+    microdata: microdata.length > 0 ? microdata.slice(0, MAX_MICRODATA_ITEMS) : undefined,
+  }
+
+  // Drop empty fields so stored entries stay compact
+  for (const key of Object.keys(metadata) as Array<keyof PageMetadata>) {
+    if (metadata[key] === undefined || metadata[key] === "") delete metadata[key]
+  }
+
+  return metadata
+}
+
+function extractOpenGraph(document: Document): Record<string, string> {
+  const openGraph: Record<string, string> = {}
+
+  document.querySelectorAll('meta[property^="og:"]').forEach((el) => {
+    const key = el.getAttribute("property")?.substring(3)
+    const value = el.getAttribute("content")?.trim()
+    if (key && value && !(key in openGraph)) {
+      openGraph[key] = value
+    }
+  })
+
+  return openGraph
+}
+
+function extractJsonLd(document: Document): Record<string, unknown>[] {
+  const nodes: Record<string, unknown>[] = []
+
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect)
+    } else if (value && typeof value === "object") {
+      const node = value as Record<string, unknown>
+      if (Array.isArray(node["@graph"])) {
+        node["@graph"].forEach(collect)
+      } else {
+        nodes.push(node)
+      }
+    }
+  }
+
+  document.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      collect(JSON.parse(script.textContent || ""))
+    } catch {
+      // Invalid JSON-LD is common in the wild; skip the block
+    }
+  })
+
+  return nodes
+}
+
+function extractMicrodata(document: Document, url: string): MicrodataItem[] {
+  // Top-level items are scopes that are not themselves a property of another item
+  return Array.from(document.querySelectorAll("[itemscope]:not([itemprop])")).map((el) =>
+    parseMicrodataItem(el, url),
+  )
+}
+
+function parseMicrodataItem(scope: Element, url: string): MicrodataItem {
+  const item: MicrodataItem = {
+    type: scope.getAttribute("itemtype")?.trim() || undefined,
+    properties: {},
+  }
+
+  scope.querySelectorAll("[itemprop]").forEach((el) => {
+    // Only properties whose nearest enclosing scope is this item
+    const owner = el.parentElement?.closest("[itemscope]")
+    if (owner !== scope) return
+
+    const value = el.hasAttribute("itemscope") ? parseMicrodataItem(el, url) : getMicrodataValue(el, url)
+    if (value === "") return
+
+    for (const name of (el.getAttribute("itemprop") || "").split(/\s+/).filter(Boolean)) {
+      ;(item.properties[name] ||= []).push(value)
+    }
+  })
+
+  return item
+}
+
+function getMicrodataValue(el: Element, url: string): string {
+  switch (el.tagName) {
+    case "META":
+      return el.getAttribute("content")?.trim() || ""
+    case "A":
+    case "LINK":
+    case "AREA":
+      return resolveUrl(el.getAttribute("href"), url) || ""
+    case "IMG":
+    case "AUDIO":
+    case "VIDEO":
+    case "SOURCE":
+    case "IFRAME":
+    case "EMBED":
+      return resolveUrl(el.getAttribute("src"), url) || ""
+    case "OBJECT":
+      return resolveUrl(el.getAttribute("data"), url) || ""
+    case "TIME":
+      return el.getAttribute("datetime")?.trim() || el.textContent?.trim() || ""
+    case "DATA":
+    case "METER":
+      return el.getAttribute("value")?.trim() || ""
+    default:
+      return el.getAttribute("content")?.trim() || (el.textContent || "").replace(/\s+/g, " ").trim()
+  }
+}
+
+function microAuthor(item: MicrodataItem | undefined): string | undefined {
+  const author = item?.properties.author?.[0]
+  if (!author) return undefined
+  if (typeof author === "string") return author
+
+  const name = author.properties.name?.[0]
+  return typeof name === "string" ? name : undefined
+}
+
+function getPrimaryJsonLdNode(nodes: Record<string, unknown>[]): Record<string, unknown> | undefined {
+  return nodes.find((node) => !getJsonLdTypes(node).every((type) => SECONDARY_TYPES.has(type))) || nodes[0]
+}
+
+function getNodeOfType(nodes: Record<string, unknown>[], type: string): Record<string, unknown> | undefined {
+  return nodes.find((node) => getJsonLdTypes(node).includes(type))
+}
+
+function getJsonLdType(node: Record<string, unknown> | undefined): string | undefined {
+  return node ? getJsonLdTypes(node)[0] : undefined
+}
+
+function getJsonLdTypes(node: Record<string, unknown>): string[] {
+  return toStringList(node["@type"]).map((type) => getSchemaTypeName(type) || type)
+}
+
+/**
+ * "https://schema.org/Recipe" -> "Recipe"
+ */
+function getSchemaTypeName(type: string | undefined): string | undefined {
+  if (!type) return undefined
+  return type.split(/\s+/)[0].replace(/^https?:\/\/schema\.org\//i, "") || undefined
+}
+
+function toPersonName(value: unknown): string | undefined {
+  const names = (Array.isArray(value) ? value : [value])
+    .map((person) => (typeof person === "string" ? person : stringValue((person as Record<string, unknown>)?.name)))
+    .filter((name): name is string => Boolean(name))
+
+  return names.length > 0 ? names.join(", ") : undefined
+}
+
+function toImageList(value: unknown): string[] {
+  return (Array.isArray(value) ? value : [value])
+    .map((image) => (typeof image === "string" ? image : stringValue((image as Record<string, unknown>)?.url)))
+    .filter((image): image is string => Boolean(image))
+}
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === "string") return [value]
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === "string")
+  return []
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined
+}
+
+function getAllMeta(document: Document, selector: string): string[] {
+  return Array.from(document.querySelectorAll(selector))
+    .map((el) => el.getAttribute("content")?.trim())
+    .filter((value): value is string => Boolean(value))
+}
+
+function getTitle(document: Document): string | undefined {
+  return document.querySelector("title")?.textContent?.trim() || undefined
+}
+
+function normalizeLanguage(value: string | undefined | null): string | undefined {
+  const language = value?.trim().split(/[,;\s]/)[0].replace(/_/g, "-")
+  return language || undefined
+}
+
+function resolveUrl(value: string | undefined | null, base: string): string | undefined {
+  if (!value) return undefined
+  try {
+    return new URL(value.trim(), base).toString()
+  } catch {
+    return undefined
+  }
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
@@ -0,0 +1,98 @@
+/**
+ * URL normalization so trivially different spellings of one page share a
+ * single identity (UrlRecord, cached content, LangCache entry).
+ *
+ * - scheme and host are lowercased, a leading "www." is dropped
+ * - default ports (:80 for http, :443 for https) are removed
+ * - the fragment is removed
+ * - tracking parameters (utm_*, gclid, fbclid, ...) are removed and the
+ *   remaining query parameters are sorted
+ * - duplicate slashes are collapsed and the trailing slash is removed
+ *   (except for the root path)
+ *
+ * The path keeps its case; most servers treat it as case-sensitive.
+ */
+
+const TRACKING_PARAMS = new Set([
+  "gclid",
+  "gclsrc",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "fbclid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "ttclid",
+  "li_fat_id",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+  "oly_anon_id",
+  "oly_enc_id",
+  "vero_id",
+  "spm",
+  "ref_src",
+])
+
+const TRACKING_PREFIXES = ["utm_", "pk_", "mtm_", "hsa_"]
+
+/**
+ * Check whether a query parameter only carries campaign / click tracking data
+ */
+export function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase()
+  return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some((prefix) => lower.startsWith(prefix))
+}
+
+/**
+ * Normalize a URL. Strings that do not parse as absolute http(s) URLs are
+ * returned trimmed but otherwise unchanged.
+ */
+export function normalizeUrl(url: string): string {
+  const trimmed = url.trim()
+
+  let urlObj: URL
+  try {
+    urlObj = new URL(trimmed)
+  } catch {
+    return trimmed
+  }
+
+  if (urlObj.protocol !== "http:" && urlObj.protocol !== "https:") {
+    return trimmed
+  }
+
+  // URL already lowercases the scheme and host and drops default ports
+  urlObj.hostname = urlObj.hostname.replace(/^www\./, "").replace(/\.$/, "")
+  urlObj.hash = ""
+
+  const params = Array.from(urlObj.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort((a, b) => compare(a[0], b[0]) || compare(a[1], b[1]))
+  urlObj.search = new URLSearchParams(params).toString()
+
+  let pathname = urlObj.pathname.replace(/\/{2,}/g, "/")
+  if (pathname.length > 1 && pathname.endsWith("/")) {
+    pathname = pathname.slice(0, -1)
+  }
+  urlObj.pathname = pathname
+
+  return urlObj.toString()
+}
+
+/**
+ * Check whether two URLs normalize to the same page
+ */
+export function isSameUrl(a: string, b: string): boolean {
+  return normalizeUrl(a) === normalizeUrl(b)
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
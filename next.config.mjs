@@ -10,7 +10,7 @@ const nextConfig = {
     unoptimized: true,
   },
   experimental: {
-    serverComponentsExternalPackages: ['redis', '@redis/client'],
+    serverComponentsExternalPackages: ['redis', '@redis/client', '@huggingface/transformers'],
   },
 }
 